@@ -0,0 +1,46 @@
+import { createServer, IncomingMessage, Server as HTTPServer } from 'http';
+import { Duplex } from 'stream';
+import { HttpRouteOptions, setupHttpRoutes } from './routes.js';
+import type { WebSocketServer } from '../websocket/server.js';
+import type { NotificationWebSocketServer } from '../notifications/server.js';
+
+export enum ServerMode {
+  Single = "single", // HTTP routes, chat and notifications share WS_PORT
+  Dual = "dual", // Chat on WS_PORT; HTTP routes and notifications on WS_PORT + 1
+}
+
+export function isServerMode(value: unknown): value is ServerMode {
+  return Object.values(ServerMode).includes(value as ServerMode);
+}
+
+export const CHAT_WS_PATH = '/';
+export const NOTIFICATION_WS_PATH = '/api/notifications/ws';
+
+/**
+ * HTTP server for the API routes, with WebSocket upgrades routed by path.
+ * Without a chatServer (dual mode) only notification upgrades are accepted, on their path or on `/`
+ * as the standalone notification server did before the ports were merged.
+ */
+export function createHttpServer(
+  notificationServer: NotificationWebSocketServer,
+  routeOptions: HttpRouteOptions,
+  chatServer?: WebSocketServer
+): HTTPServer {
+  const server = createServer();
+  server.on('request', setupHttpRoutes(server, notificationServer, routeOptions));
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (pathname === NOTIFICATION_WS_PATH || (!chatServer && pathname === CHAT_WS_PATH)) {
+      notificationServer.handleUpgrade(req, socket, head);
+    } else if (pathname === CHAT_WS_PATH && chatServer) {
+      chatServer.handleUpgrade(req, socket, head);
+    } else {
+      console.warn(`[HTTP] Rejecting WebSocket upgrade for unknown path ${pathname}`);
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,206 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setupHttpRoutes } from './routes.js';
+import { parseApiKeys, signApiRequest } from '../auth/api-keys.js';
+import type { NotificationWebSocketServer } from '../notifications/server.js';
+
+const notificationServer = {
+  broadcastNotification: vi.fn(async () => {}),
+  broadcastToAdmins: vi.fn(),
+  getConnectedClientsCount: () => 0,
+  getAdminClientsCount: () => 0,
+};
+
+const options = {
+  apiKeys: parseApiKeys('app:app-secret:broadcast,ops:ops-secret:broadcast|admin'),
+  maxBodyBytes: 1024,
+  signatureToleranceSec: 60,
+};
+
+const notification = { id: 'n1', title: 'Hello', priority: 'NORMAL', isGlobal: true };
+const body = JSON.stringify({ notification });
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer(
+    setupHttpRoutes(null, notificationServer as unknown as NotificationWebSocketServer, options)
+  );
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  notificationServer.broadcastNotification.mockClear();
+  notificationServer.broadcastToAdmins.mockClear();
+});
+
+function post(path: string, payload: string, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: payload,
+  });
+}
+
+function signedHeaders(payload: string, keyId: string, secret: string, timestampSec = Math.floor(Date.now() / 1000)) {
+  return {
+    'X-Key-Id': keyId,
+    'X-Timestamp': String(timestampSec),
+    'X-Signature': signApiRequest(payload, secret, timestampSec),
+  };
+}
+
+describe('broadcast route authentication', () => {
+  it('accepts a key with the scope, as a bearer token or X-API-Key', async () => {
+    const bearer = await post('/api/broadcast', body, { Authorization: 'Bearer app-secret' });
+    const header = await post('/api/broadcast', body, { 'X-API-Key': 'app-secret' });
+
+    expect(bearer.status).toBe(200);
+    expect(header.status).toBe(200);
+    expect(notificationServer.broadcastNotification).toHaveBeenCalledTimes(2);
+    expect(notificationServer.broadcastNotification).toHaveBeenCalledWith(notification);
+  });
+
+  it('rejects a request without a key', async () => {
+    const res = await post('/api/broadcast', body);
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await res.json()).toEqual({ error: 'Missing credentials' });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown key', async () => {
+    const res = await post('/api/broadcast', body, { Authorization: 'Bearer not-a-key' });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid API key' });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key without the route\'s scope with 403', async () => {
+    const payload = JSON.stringify({ message: { type: 'maintenance' } });
+    const res = await post('/api/broadcast-admin', payload, { Authorization: 'Bearer app-secret' });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'API key "app" lacks the admin scope' });
+    expect(notificationServer.broadcastToAdmins).not.toHaveBeenCalled();
+
+    const allowed = await post('/api/broadcast-admin', payload, { Authorization: 'Bearer ops-secret' });
+    expect(allowed.status).toBe(200);
+    expect(notificationServer.broadcastToAdmins).toHaveBeenCalledWith({ type: 'maintenance' });
+  });
+
+  it('accepts a correctly signed request', async () => {
+    const res = await post('/api/broadcast', body, signedHeaders(body, 'app', 'app-secret'));
+
+    expect(res.status).toBe(200);
+    expect(notificationServer.broadcastNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['a signature made with the wrong secret', () => signedHeaders(body, 'app', 'wrong-secret')],
+    ['a signature over a different body', () => signedHeaders('{}', 'app', 'app-secret')],
+    ['an unknown key id', () => signedHeaders(body, 'nobody', 'app-secret')],
+    ['a malformed signature', () => ({ ...signedHeaders(body, 'app', 'app-secret'), 'X-Signature': 'zz' })],
+  ])('rejects %s', async (_label, headers) => {
+    const res = await post('/api/broadcast', body, headers());
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid request signature' });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects a replayed signed request within the clock tolerance', async () => {
+    const timestampSec = Math.floor(Date.now() / 1000) - 10;
+    const headers = signedHeaders(body, 'app', 'app-secret', timestampSec);
+
+    const first = await post('/api/broadcast', body, headers);
+    const replay = await post('/api/broadcast', body, headers);
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(401);
+    expect(await replay.json()).toEqual({ error: 'Request signature already used' });
+    expect(notificationServer.broadcastNotification).toHaveBeenCalledTimes(1);
+
+    // The same body signed again with a new timestamp is a new request
+    const fresh = await post('/api/broadcast', body, signedHeaders(body, 'app', 'app-secret', timestampSec - 1));
+    expect(fresh.status).toBe(200);
+    expect(notificationServer.broadcastNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a signed request outside the clock tolerance', async () => {
+    const stale = Math.floor(Date.now() / 1000) - 120;
+    const res = await post('/api/broadcast', body, signedHeaders(body, 'app', 'app-secret', stale));
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Request timestamp outside the allowed window' });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signed request missing its timestamp', async () => {
+    const { 'X-Timestamp': _timestamp, ...headers } = signedHeaders(body, 'app', 'app-secret');
+    const res = await post('/api/broadcast', body, headers);
+
+    expect(res.status).toBe(401);
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body over the limit with 413 before checking the key', async () => {
+    const large = JSON.stringify({ notification: { ...notification, title: 'x'.repeat(2048) } });
+    const res = await post('/api/broadcast', large, { Authorization: 'Bearer not-a-key' });
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: `Body is ${Buffer.byteLength(large)} bytes, the limit is 1024` });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+
+  it('rejects a streamed body that grows past the limit with 413', async () => {
+    const chunk = new TextEncoder().encode('x'.repeat(600));
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(chunk);
+        controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const res = await fetch(`${baseUrl}/api/broadcast`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer app-secret' },
+      body: stream,
+      duplex: 'half',
+    } as RequestInit);
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: 'Body exceeds the limit of 1024 bytes' });
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'Request body must be valid JSON'],
+    ['a JSON array', '[]', 'Notification data is required'],
+    ['a non-object notification', JSON.stringify({ notification: 'hi' }), 'Notification data is required'],
+    ['a notification without an id', JSON.stringify({ notification: { ...notification, id: undefined } }),
+      'notification.id must be a non-empty string of at most 256 characters'],
+    ['a non-string title', JSON.stringify({ notification: { ...notification, title: 5 } }),
+      'notification.title must be a non-empty string'],
+    ['an unknown priority', JSON.stringify({ notification: { ...notification, priority: 'CRITICAL' } }),
+      'notification.priority must be one of LOW, NORMAL, HIGH, URGENT'],
+    ['malformed audience rules', JSON.stringify({ notification: { ...notification, audience: { roles: [] } } }),
+      'audience.roles must be a non-empty array of at most 100 strings'],
+  ])('answers 400 to an authorized request with %s', async (_label, payload, error) => {
+    const res = await post('/api/broadcast', payload, { Authorization: 'Bearer app-secret' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error });
+    expect(notificationServer.broadcastNotification).not.toHaveBeenCalled();
+  });
+});
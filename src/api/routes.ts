@@ -1,12 +1,147 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { parse } from 'url';
-import { NotificationWebSocketServer } from '../notifications/server.js';
+import { NotificationUser, NotificationWebSocketServer } from '../notifications/server.js';
 import { NotificationData } from '../notifications/types.js';
+import { NotificationQueryError, parseNotificationListQuery } from '../notifications/list-query.js';
+import { isScheduleRequest, ScheduleError } from '../notifications/scheduler.js';
+import { parsePreferences, PreferencesError } from '../notifications/preferences.js';
+import { NotificationDataError, validateNotificationData } from '../notifications/validation.js';
+import { JwtError } from '../auth/jwt.js';
+import {
+  ApiAuthError,
+  ApiAuthResult,
+  ApiKey,
+  ApiKeyScope,
+  authenticateApiRequest,
+  requireScope,
+  UsedSignatures,
+} from '../auth/api-keys.js';
+
+export interface HttpRouteOptions {
+  apiKeys: ApiKey[]; // Keys allowed to call the broadcast endpoints
+  maxBodyBytes: number; // Larger request bodies get a 413
+  signatureToleranceSec?: number; // How old a signed request may be
+}
+
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Read the request body, giving up once it exceeds maxBytes
+ */
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const declared = parseInt(req.headers['content-length'] ?? '', 10);
+    if (declared > maxBytes) {
+      req.resume(); // Discard it - the response closes the connection
+      reject(new PayloadTooLargeError(`Body is ${declared} bytes, the limit is ${maxBytes}`));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.resume();
+        reject(new PayloadTooLargeError(`Body exceeds the limit of ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function remoteAddress(req: IncomingMessage): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const forwarded = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+  return forwarded?.split(',')[0].trim() || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * A parsed JSON body as an object, or null for arrays, primitives and null
+ */
+function jsonObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read, authenticate and parse a broadcast request. Sends the error response itself
+ * (413, 401, 403 or 400) and returns null when the request is refused.
+ */
+async function readAuthorizedJson(
+  req: IncomingMessage,
+  res: ServerResponse,
+  scope: ApiKeyScope,
+  options: HttpRouteOptions,
+  usedSignatures: UsedSignatures
+): Promise<{ body: unknown; auth: ApiAuthResult } | null> {
+  const route = `${req.method} ${req.url}`;
+  try {
+    const raw = await readBody(req, options.maxBodyBytes);
+    const auth = authenticateApiRequest(req.headers, raw, options.apiKeys, options.signatureToleranceSec, usedSignatures);
+    requireScope(auth.key, scope);
+
+    try {
+      return { body: raw ? JSON.parse(raw) : {}, auth };
+    } catch {
+      sendJson(res, 400, { error: 'Request body must be valid JSON' });
+      return null;
+    }
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      console.warn(`[Audit] ${route} rejected status=413 remote=${remoteAddress(req)}: ${error.message}`);
+      sendJson(res, 413, { error: error.message }, { Connection: 'close' });
+      return null;
+    }
+    if (error instanceof ApiAuthError) {
+      console.warn(`[Audit] ${route} rejected status=${error.status} remote=${remoteAddress(req)}: ${error.message}`);
+      sendJson(res, error.status, { error: error.message }, error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {});
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The user behind an `Authorization: Bearer <jwt>` header (same tokens as the notification socket).
+ * Sends a 401 and returns null when it's missing or invalid.
+ */
+function authenticateUser(
+  req: IncomingMessage,
+  res: ServerResponse,
+  notificationServer: NotificationWebSocketServer
+): NotificationUser | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    sendJson(res, 401, { error: 'Bearer token required' }, { 'WWW-Authenticate': 'Bearer' });
+    return null;
+  }
+
+  try {
+    return notificationServer.verifyToken(match[1].trim());
+  } catch (error) {
+    const message = error instanceof JwtError ? error.message : 'Invalid token';
+    console.warn(`[HTTP] ${req.method} ${req.url} rejected status=401 remote=${remoteAddress(req)}: ${message}`);
+    sendJson(res, 401, { error: message }, { 'WWW-Authenticate': 'Bearer' });
+    return null;
+  }
+}
 
 export function setupHttpRoutes(
   server: any,
-  notificationServer: NotificationWebSocketServer
+  notificationServer: NotificationWebSocketServer,
+  options: HttpRouteOptions
 ) {
+  const usedSignatures = new UsedSignatures();
   return async (req: IncomingMessage, res: ServerResponse) => {
     try {
       const parsedUrl = parse(req.url || '', true);
@@ -44,67 +179,234 @@ export function setupHttpRoutes(
 
       // Broadcast notification endpoint
       if (pathname === '/api/broadcast' && req.method === 'POST') {
-        let body = '';
-        req.on('data', chunk => {
-          body += chunk.toString();
-        });
-        req.on('end', () => {
-          try {
-            const { notification } = JSON.parse(body);
-            
-            if (!notification) {
-              res.writeHead(400, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Notification data is required' }));
-              return;
-            }
+        const request = await readAuthorizedJson(req, res, ApiKeyScope.Broadcast, options, usedSignatures);
+        if (!request) return;
+
+        try {
+          const body = jsonObject(request.body);
+          
+          if (!body) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Notification data is required' }));
+            return;
+          }
 
-            notificationServer.broadcastNotification(notification as NotificationData);
-            
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ 
-              success: true, 
-              message: 'Notification broadcasted successfully',
-              connectedClients: notificationServer.getConnectedClientsCount()
-            }));
+          let data: NotificationData;
+          try {
+            data = validateNotificationData(body.notification);
           } catch (error) {
-            console.error('❌ Error processing broadcast request:', error);
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Internal server error' }));
+            if (!(error instanceof NotificationDataError)) throw error;
+            sendJson(res, 400, { error: error.message });
+            return;
           }
-        });
+
+          if (isScheduleRequest(body)) {
+            try {
+              const schedule = await notificationServer.scheduleNotification({
+                notification: data,
+                sendAt: body.sendAt,
+                cron: body.cron,
+                createdBy: `key:${request.auth.key.id}`,
+              });
+              console.log(
+                `[Audit] ${req.method} ${pathname} keyId=${request.auth.key.id} method=${request.auth.method} ` +
+                `remote=${remoteAddress(req)} notificationId=${data.id} scheduleId=${schedule.id} title=${JSON.stringify(data.title)}`
+              );
+              sendJson(res, 201, { success: true, message: 'Notification scheduled', schedule });
+            } catch (error) {
+              if (!(error instanceof ScheduleError)) throw error;
+              sendJson(res, 400, { error: error.message });
+            }
+            return;
+          }
+
+          console.log(
+            `[Audit] ${req.method} ${pathname} keyId=${request.auth.key.id} method=${request.auth.method} ` +
+            `remote=${remoteAddress(req)} notificationId=${data.id} global=${data.isGlobal} audience=${data.audience ? 'yes' : 'no'} ` +
+            `targets=${Array.isArray(data.targetUserIds) ? data.targetUserIds.length : 0} title=${JSON.stringify(data.title)}`
+          );
+          await notificationServer.broadcastNotification(data);
+          
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ 
+            success: true, 
+            message: 'Notification broadcasted successfully',
+            connectedClients: notificationServer.getConnectedClientsCount()
+          }));
+        } catch (error) {
+          console.error('❌ Error processing broadcast request:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        }
         return;
       }
 
       // Broadcast to admins only endpoint
       if (pathname === '/api/broadcast-admin' && req.method === 'POST') {
-        let body = '';
-        req.on('data', chunk => {
-          body += chunk.toString();
-        });
-        req.on('end', () => {
+        const request = await readAuthorizedJson(req, res, ApiKeyScope.Admin, options, usedSignatures);
+        if (!request) return;
+
+        try {
+          const message = jsonObject(jsonObject(request.body)?.message);
+          
+          if (!message) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Message data is required' }));
+            return;
+          }
+
+          console.log(
+            `[Audit] ${req.method} ${pathname} keyId=${request.auth.key.id} method=${request.auth.method} ` +
+            `remote=${remoteAddress(req)} messageType=${typeof message.type === 'string' ? message.type : 'unknown'}`
+          );
+          notificationServer.broadcastToAdmins(message);
+          
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ 
+            success: true,
+            message: 'Admin message broadcasted successfully',
+            adminClients: notificationServer.getAdminClientsCount()
+          }));
+        } catch (error) {
+          console.error('❌ Error broadcasting admin message:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Failed to broadcast admin message' }));
+        }
+        return;
+      }
+
+      // Notification history for the token's user
+      if (pathname === '/api/notifications' && req.method === 'GET') {
+        const user = authenticateUser(req, res, notificationServer);
+        if (!user) return;
+
+        const params: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(parsedUrl.query)) {
+          params[key] = Array.isArray(value) ? value[0] : value;
+        }
+
+        try {
+          const page = await notificationServer.listNotifications(user, parseNotificationListQuery(params));
+          sendJson(res, 200, page);
+        } catch (error) {
+          if (error instanceof NotificationQueryError) {
+            sendJson(res, 400, { error: error.message });
+            return;
+          }
+          console.error('❌ Error listing notifications:', error);
+          sendJson(res, 500, { error: 'Failed to list notifications' });
+        }
+        return;
+      }
+
+      if (pathname === '/api/notifications/unread-count' && req.method === 'GET') {
+        const user = authenticateUser(req, res, notificationServer);
+        if (!user) return;
+
+        try {
+          sendJson(res, 200, { count: await notificationServer.getUnreadCount(user) });
+        } catch (error) {
+          console.error('❌ Error counting unread notifications:', error);
+          sendJson(res, 500, { error: 'Failed to count unread notifications' });
+        }
+        return;
+      }
+
+      if (pathname === '/api/notifications/preferences' && (req.method === 'GET' || req.method === 'PUT')) {
+        const user = authenticateUser(req, res, notificationServer);
+        if (!user) {
+          req.resume();
+          return;
+        }
+
+        try {
+          if (req.method === 'GET') {
+            sendJson(res, 200, { preferences: await notificationServer.getPreferences(user.userId) });
+            return;
+          }
+
+          let body: unknown;
           try {
-            const { message } = JSON.parse(body);
-            
-            if (!message) {
-              res.writeHead(400, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Message data is required' }));
-              return;
+            body = JSON.parse(await readBody(req, options.maxBodyBytes));
+          } catch (error) {
+            if (error instanceof PayloadTooLargeError) {
+              sendJson(res, 413, { error: error.message }, { Connection: 'close' });
+            } else if (error instanceof SyntaxError) {
+              sendJson(res, 400, { error: 'Request body must be valid JSON' });
+            } else {
+              throw error;
             }
+            return;
+          }
 
-            notificationServer.broadcastToAdmins(message);
-            
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ 
-              success: true,
-              message: 'Admin message broadcasted successfully',
-              adminClients: notificationServer.getAdminClientsCount()
-            }));
-          } catch (error) {
-            console.error('❌ Error broadcasting admin message:', error);
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Failed to broadcast admin message' }));
+          const input = jsonObject(body);
+          if (!input || input.preferences === undefined) {
+            sendJson(res, 400, { error: 'preferences is required' });
+            return;
+          }
+
+          const preferences = await notificationServer.updatePreferences(user.userId, parsePreferences(input.preferences));
+          sendJson(res, 200, { success: true, preferences });
+        } catch (error) {
+          if (error instanceof PreferencesError) {
+            sendJson(res, 400, { error: error.message });
+            return;
+          }
+          console.error('❌ Error handling notification preferences:', error);
+          sendJson(res, 500, { error: 'Failed to handle notification preferences' });
+        }
+        return;
+      }
+
+      if (pathname === '/api/notifications/read-all' && req.method === 'POST') {
+        req.resume(); // No body expected
+        const user = authenticateUser(req, res, notificationServer);
+        if (!user) return;
+
+        try {
+          sendJson(res, 200, { success: true, count: await notificationServer.markAllRead(user) });
+        } catch (error) {
+          console.error('❌ Error marking notifications read:', error);
+          sendJson(res, 500, { error: 'Failed to mark notifications read' });
+        }
+        return;
+      }
+
+      // Pending scheduled notifications
+      if (pathname === '/api/schedules' && req.method === 'GET') {
+        const request = await readAuthorizedJson(req, res, ApiKeyScope.Admin, options, usedSignatures);
+        if (!request) return;
+
+        try {
+          sendJson(res, 200, { schedules: await notificationServer.listSchedules() });
+        } catch (error) {
+          console.error('❌ Error listing schedules:', error);
+          sendJson(res, 500, { error: 'Failed to list schedules' });
+        }
+        return;
+      }
+
+      const scheduleMatch = pathname?.match(/^\/api\/schedules\/([^/]+)$/);
+      if (scheduleMatch && req.method === 'DELETE') {
+        const request = await readAuthorizedJson(req, res, ApiKeyScope.Admin, options, usedSignatures);
+        if (!request) return;
+
+        const scheduleId = decodeURIComponent(scheduleMatch[1]);
+        try {
+          const cancelled = await notificationServer.cancelSchedule(scheduleId);
+          console.log(
+            `[Audit] ${req.method} ${pathname} keyId=${request.auth.key.id} method=${request.auth.method} ` +
+            `remote=${remoteAddress(req)} scheduleId=${scheduleId} cancelled=${cancelled}`
+          );
+          if (cancelled) {
+            sendJson(res, 200, { success: true });
+          } else {
+            sendJson(res, 404, { error: 'Schedule not found' });
           }
-        });
+        } catch (error) {
+          console.error('❌ Error cancelling schedule:', error);
+          sendJson(res, 500, { error: 'Failed to cancel schedule' });
+        }
         return;
       }
 
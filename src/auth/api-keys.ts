@@ -0,0 +1,196 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * API keys for server-to-server HTTP calls (e.g. the app pushing notifications).
+ *
+ * A request proves it holds a key either by sending the secret itself
+ * (`Authorization: Bearer <secret>` or `X-API-Key: <secret>`) or by signing the body:
+ * `X-Key-Id: <id>`, `X-Timestamp: <unix seconds>` and
+ * `X-Signature: hex(HMAC-SHA256(secret, "<timestamp>.<body>"))`. Signed requests never put the
+ * secret on the wire, are only accepted within the clock tolerance and, given a UsedSignatures,
+ * only once.
+ */
+
+export enum ApiKeyScope {
+  Broadcast = "broadcast", // POST /api/broadcast
+  Admin = "admin", // POST /api/broadcast-admin
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return Object.values(ApiKeyScope).includes(value as ApiKeyScope);
+}
+
+export interface ApiKey {
+  id: string; // Shown in audit logs; never the secret
+  secret: string;
+  scopes: ApiKeyScope[];
+}
+
+export type ApiAuthMethod = 'api-key' | 'hmac';
+
+export interface ApiAuthResult {
+  key: ApiKey;
+  method: ApiAuthMethod;
+}
+
+export class ApiAuthError extends Error {
+  status: 401 | 403;
+
+  constructor(message: string, status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'ApiAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Parse "id:secret:scope|scope,id2:secret2:scope" (as in BROADCAST_API_KEYS)
+ */
+export function parseApiKeys(spec: string): ApiKey[] {
+  const keys = spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, secret, scopeList] = entry.split(':');
+      if (!id || !secret || !scopeList) {
+        throw new Error(`Invalid API key entry "${id ?? ''}": expected id:secret:scope[|scope]`);
+      }
+      const scopes = scopeList.split('|').map(scope => scope.trim());
+      const unknown = scopes.find(scope => !isApiKeyScope(scope));
+      if (unknown !== undefined) {
+        throw new Error(`Invalid API key entry "${id}": unknown scope "${unknown}"`);
+      }
+      return { id, secret, scopes: scopes as ApiKeyScope[] };
+    });
+
+  const ids = new Set<string>();
+  for (const key of keys) {
+    if (ids.has(key.id)) {
+      throw new Error(`Duplicate API key id "${key.id}"`);
+    }
+    ids.add(key.id);
+  }
+  return keys;
+}
+
+export function signApiRequest(body: string, secret: string, timestampSec: number = Math.floor(Date.now() / 1000)): string {
+  return createHmac('sha256', secret).update(`${timestampSec}.${body}`).digest('hex');
+}
+
+/**
+ * Signatures already accepted, kept until their timestamp leaves the tolerance window, so a captured
+ * signed request can't be replayed. Per process: replicas don't share what they have seen.
+ */
+export class UsedSignatures {
+  private expiries: Map<string, number> = new Map(); // keyId:signature -> when it can no longer be replayed
+  private nextPruneAt = 0;
+
+  /**
+   * Remember the signature; false if it was already used
+   */
+  claim(keyId: string, signature: string, expiresAt: number, now: number = Date.now()): boolean {
+    if (now >= this.nextPruneAt) {
+      for (const [entry, expiry] of this.expiries) {
+        if (expiry <= now) this.expiries.delete(entry);
+      }
+      this.nextPruneAt = now + 10000;
+    }
+
+    const entry = `${keyId}:${signature}`;
+    const expiry = this.expiries.get(entry);
+    if (expiry !== undefined && expiry > now) {
+      return false;
+    }
+    this.expiries.set(entry, expiresAt);
+    return true;
+  }
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Identify the key behind a request. Throws ApiAuthError (401) if there is none or it doesn't check out,
+ * or if it is a signed request whose signature usedSignatures has already seen.
+ */
+export function authenticateApiRequest(
+  headers: IncomingHttpHeaders,
+  body: string,
+  keys: ApiKey[],
+  toleranceSec: number = 300,
+  usedSignatures?: UsedSignatures
+): ApiAuthResult {
+  const keyId = header(headers, 'x-key-id');
+  const signature = header(headers, 'x-signature');
+  if (keyId !== undefined || signature !== undefined) {
+    return { key: verifySignedRequest(headers, body, keys, toleranceSec, usedSignatures), method: 'hmac' };
+  }
+
+  const authorization = header(headers, 'authorization');
+  const presented = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length).trim()
+    : header(headers, 'x-api-key');
+  if (!presented) {
+    throw new ApiAuthError('Missing credentials');
+  }
+
+  // Compare digests so every comparison is constant-time and equal-length
+  const presentedDigest = digest(presented);
+  const key = keys.find(candidate => timingSafeEqual(digest(candidate.secret), presentedDigest));
+  if (!key) {
+    throw new ApiAuthError('Invalid API key');
+  }
+  return { key, method: 'api-key' };
+}
+
+function verifySignedRequest(
+  headers: IncomingHttpHeaders,
+  body: string,
+  keys: ApiKey[],
+  toleranceSec: number,
+  usedSignatures?: UsedSignatures
+): ApiKey {
+  const keyId = header(headers, 'x-key-id');
+  const timestamp = header(headers, 'x-timestamp');
+  const signature = header(headers, 'x-signature');
+  if (!keyId || !timestamp || !signature) {
+    throw new ApiAuthError('Signed requests need X-Key-Id, X-Timestamp and X-Signature');
+  }
+
+  const timestampSec = Number(timestamp);
+  if (!Number.isInteger(timestampSec)) {
+    throw new ApiAuthError('X-Timestamp must be unix seconds');
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestampSec) > toleranceSec) {
+    throw new ApiAuthError('Request timestamp outside the allowed window');
+  }
+
+  const key = keys.find(candidate => candidate.id === keyId);
+  // Unknown ids fail the same way as bad signatures
+  const expected = Buffer.from(signApiRequest(body, key?.secret ?? '', timestampSec), 'hex');
+  const actual = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+  if (!key || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ApiAuthError('Invalid request signature');
+  }
+  if (usedSignatures && !usedSignatures.claim(key.id, expected.toString('hex'), (timestampSec + toleranceSec) * 1000)) {
+    throw new ApiAuthError('Request signature already used');
+  }
+  return key;
+}
+
+/**
+ * Throws ApiAuthError (403) unless the key carries the scope
+ */
+export function requireScope(key: ApiKey, scope: ApiKeyScope): void {
+  if (!key.scopes.includes(scope)) {
+    throw new ApiAuthError(`API key "${key.id}" lacks the ${scope} scope`, 403);
+  }
+}
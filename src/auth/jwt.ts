@@ -0,0 +1,104 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Minimal HS256 JSON Web Token support (RFC 7519) on top of node:crypto.
+ * Only HS256 is accepted - tokens declaring any other alg (including "none") are rejected.
+ */
+
+export interface JwtClaims {
+  sub: string; // userId
+  exp?: number; // Seconds since epoch
+  nbf?: number;
+  iat?: number;
+  iss?: string;
+  aud?: string | string[];
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  issuer?: string;
+  audience?: string;
+  clockToleranceSec?: number;
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function parseSegment(segment: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {}
+  throw new JwtError('Malformed token');
+}
+
+function hmac(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+export function signJwt(claims: JwtClaims, secret: string, expiresInSec?: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JwtClaims = { iat: now, ...claims };
+  if (expiresInSec !== undefined) {
+    payload.exp = now + expiresInSec;
+  }
+  const signingInput = `${base64UrlJson({ alg: 'HS256', typ: 'JWT' })}.${base64UrlJson(payload)}`;
+  return `${signingInput}.${hmac(signingInput, secret).toString('base64url')}`;
+}
+
+/**
+ * Verify signature and time/issuer/audience claims. Throws JwtError on any failure.
+ */
+export function verifyJwt(token: string, secret: string, options: JwtVerifyOptions = {}): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  const header = parseSegment(headerSegment);
+  if (header.alg !== 'HS256') {
+    throw new JwtError(`Unsupported token algorithm: ${String(header.alg)}`);
+  }
+
+  const expected = hmac(`${headerSegment}.${payloadSegment}`, secret);
+  const actual = Buffer.from(signatureSegment, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError('Invalid token signature');
+  }
+
+  const claims = parseSegment(payloadSegment) as JwtClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 30;
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new JwtError('Token has no subject');
+  }
+  if (claims.exp !== undefined && (typeof claims.exp !== 'number' || now - tolerance >= claims.exp)) {
+    throw new JwtError('Token expired');
+  }
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now + tolerance < claims.nbf)) {
+    throw new JwtError('Token not yet valid');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new JwtError('Unexpected token issuer');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new JwtError('Unexpected token audience');
+    }
+  }
+
+  return claims;
+}
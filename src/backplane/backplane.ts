@@ -0,0 +1,107 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+export enum BackplaneKind {
+  Local = "local", // Single replica - nothing leaves the process
+  Redis = "redis", // Redis (or anything speaking its protocol) pub/sub between replicas
+}
+
+export function isBackplaneKind(value: unknown): value is BackplaneKind {
+  return Object.values(BackplaneKind).includes(value as BackplaneKind);
+}
+
+export type BackplaneHandler = (message: unknown) => void;
+
+/**
+ * Backplane - Pub/sub between server replicas
+ *
+ * Publishers deliver to their own sockets first and then publish, so a backplane never
+ * hands a message back to the instance that published it.
+ */
+export interface Backplane {
+  readonly nodeId: string; // Identifies this replica in logs and envelopes
+  publish(channel: string, message: unknown): void;
+  /**
+   * Returns a function that removes the handler
+   */
+  subscribe(channel: string, handler: BackplaneHandler): () => void;
+  /**
+   * Add one to a counter shared by every replica and return the new value. Counters left alone
+   * for ttlMs start again from zero. Rejects when the shared counter can't be reached.
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * Envelope put on the wire, so subscribers can drop their own messages
+ */
+export interface BackplaneEnvelope {
+  origin: string;
+  message: unknown;
+}
+
+const defaultHub = new EventEmitter();
+defaultHub.setMaxListeners(0);
+
+// Counters of each hub, so instances sharing a hub share counters as well
+const hubCounters: WeakMap<EventEmitter, Map<string, { value: number; expiresAt: number }>> = new WeakMap();
+
+/**
+ * InProcessBackplane - Instances sharing a hub see each other's messages.
+ *
+ * With a single replica there is nobody else on the hub and publishing is a no-op. Several
+ * servers in one process (e.g. tests) can share the default hub to behave like replicas.
+ */
+export class InProcessBackplane implements Backplane {
+  readonly nodeId: string = randomUUID();
+  private hub: EventEmitter;
+  private listeners: Array<{ channel: string; listener: (envelope: BackplaneEnvelope) => void }> = [];
+
+  constructor(hub: EventEmitter = defaultHub) {
+    this.hub = hub;
+    if (!hubCounters.has(hub)) {
+      hubCounters.set(hub, new Map());
+    }
+  }
+
+  publish(channel: string, message: unknown): void {
+    const envelope: BackplaneEnvelope = { origin: this.nodeId, message };
+    this.hub.emit(channel, envelope);
+  }
+
+  subscribe(channel: string, handler: BackplaneHandler): () => void {
+    const listener = (envelope: BackplaneEnvelope) => {
+      if (envelope.origin === this.nodeId) return;
+      try {
+        handler(envelope.message);
+      } catch (error) {
+        console.error(`[Backplane] Handler failed channel=${channel}:`, error);
+      }
+    };
+    this.hub.on(channel, listener);
+    const entry = { channel, listener };
+    this.listeners.push(entry);
+
+    return () => {
+      this.hub.off(channel, listener);
+      this.listeners = this.listeners.filter(other => other !== entry);
+    };
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const counters = hubCounters.get(this.hub)!;
+    const now = Date.now();
+    const counter = counters.get(key);
+    const value = counter && counter.expiresAt > now ? counter.value + 1 : 1;
+    counters.set(key, { value, expiresAt: now + ttlMs });
+    return value;
+  }
+
+  async close(): Promise<void> {
+    for (const { channel, listener } of this.listeners) {
+      this.hub.off(channel, listener);
+    }
+    this.listeners = [];
+  }
+}
@@ -0,0 +1,20 @@
+import { Config } from '../config.js';
+import { Backplane, BackplaneKind, InProcessBackplane } from './backplane.js';
+import { RedisBackplane } from './redis-backplane.js';
+
+export * from './backplane.js';
+export { RedisBackplane } from './redis-backplane.js';
+
+/**
+ * Create the backplane selected in Config
+ */
+export async function createBackplane(config: Config['backplane']): Promise<Backplane> {
+  switch (config.kind) {
+    case BackplaneKind.Redis:
+      console.log('[Backplane] Using Redis pub/sub');
+      return RedisBackplane.connect(config.redisUrl!, { channelPrefix: config.channelPrefix });
+    case BackplaneKind.Local:
+    default:
+      return new InProcessBackplane();
+  }
+}
@@ -0,0 +1,303 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedisBackplane } from './redis-backplane.js';
+
+/**
+ * Just enough of a Redis server for the backplane: AUTH, PUBLISH/SUBSCRIBE, INCR and PEXPIRE.
+ * Replies can be split into single bytes to exercise the client's incremental parser.
+ */
+class RespStandIn {
+  server: net.Server;
+  sockets: Set<net.Socket> = new Set();
+  commands: string[][] = [];
+  password: string | null = null;
+  splitReplies = false;
+  private subscriptions: Map<net.Socket, Set<string>> = new Map();
+  private counters: Map<string, number> = new Map();
+
+  constructor() {
+    this.server = net.createServer(socket => this.accept(socket));
+  }
+
+  async listen(port = 0): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Drop every client connection, as a Redis restart would
+   */
+  dropConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.dropConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  subscribed(channel: string): number {
+    return Array.from(this.subscriptions.values()).filter(channels => channels.has(channel)).length;
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    this.subscriptions.set(socket, new Set());
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[]; next: number } | null;
+      while ((parsed = readCommand(buffer)) !== null) {
+        buffer = buffer.subarray(parsed.next);
+        this.commands.push(parsed.args);
+        this.execute(socket, parsed.args);
+      }
+    });
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.subscriptions.delete(socket);
+    });
+    socket.on('error', () => {});
+  }
+
+  private execute(socket: net.Socket, [name, ...args]: string[]): void {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        this.reply(socket, args[args.length - 1] === this.password ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        break;
+      case 'SUBSCRIBE':
+        args.forEach((channel, i) => {
+          this.subscriptions.get(socket)!.add(channel);
+          this.reply(socket, `*3\r\n${bulk('subscribe')}${bulk(channel)}:${i + 1}\r\n`);
+        });
+        break;
+      case 'UNSUBSCRIBE':
+        args.forEach(channel => {
+          this.subscriptions.get(socket)!.delete(channel);
+          this.reply(socket, `*3\r\n${bulk('unsubscribe')}${bulk(channel)}:0\r\n`);
+        });
+        break;
+      case 'PUBLISH': {
+        let receivers = 0;
+        for (const [subscriber, channels] of this.subscriptions) {
+          if (channels.has(args[0])) {
+            receivers++;
+            this.reply(subscriber, `*3\r\n${bulk('message')}${bulk(args[0])}${bulk(args[1])}`);
+          }
+        }
+        this.reply(socket, `:${receivers}\r\n`);
+        break;
+      }
+      case 'INCR': {
+        const value = (this.counters.get(args[0]) ?? 0) + 1;
+        this.counters.set(args[0], value);
+        this.reply(socket, `:${value}\r\n`);
+        break;
+      }
+      case 'PEXPIRE':
+        this.reply(socket, ':1\r\n');
+        break;
+      case 'QUIT':
+        socket.end('+OK\r\n');
+        break;
+      default:
+        this.reply(socket, `-ERR unknown command '${name}'\r\n`);
+    }
+  }
+
+  private reply(socket: net.Socket, data: string): void {
+    if (!this.splitReplies) {
+      socket.write(data);
+      return;
+    }
+    for (const byte of Buffer.from(data)) {
+      socket.write(Buffer.from([byte]));
+    }
+  }
+}
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+function readCommand(buffer: Buffer): { args: string[]; next: number } | null {
+  let lineEnd = buffer.indexOf('\r\n');
+  if (buffer[0] !== 0x2a || lineEnd === -1) return null;
+  const count = parseInt(buffer.toString('utf8', 1, lineEnd), 10);
+  let pos = lineEnd + 2;
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    lineEnd = buffer.indexOf('\r\n', pos);
+    if (lineEnd === -1) return null;
+    const length = parseInt(buffer.toString('utf8', pos + 1, lineEnd), 10);
+    pos = lineEnd + 2;
+    if (buffer.length < pos + length + 2) return null;
+    args.push(buffer.toString('utf8', pos, pos + length));
+    pos += length + 2;
+  }
+  return { args, next: pos };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('RedisBackplane', () => {
+  let standIn: RespStandIn;
+  let url: string;
+  const backplanes: RedisBackplane[] = [];
+
+  async function connect(options?: Parameters<typeof RedisBackplane.connect>[1]) {
+    const backplane = await RedisBackplane.connect(url, options);
+    backplanes.push(backplane);
+    return backplane;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    standIn = new RespStandIn();
+    url = `redis://127.0.0.1:${await standIn.listen()}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(backplanes.splice(0).map(backplane => backplane.close()));
+    await standIn.close();
+    vi.restoreAllMocks();
+  });
+
+  it('delivers messages between two instances but not back to the publisher', async () => {
+    const first = await connect();
+    const second = await connect();
+    const toFirst: unknown[] = [];
+    const toSecond: unknown[] = [];
+    first.subscribe('rooms', message => toFirst.push(message));
+    second.subscribe('rooms', message => toSecond.push(message));
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 2);
+
+    first.publish('rooms', { from: 'first', text: 'héllo' });
+    second.publish('rooms', { from: 'second' });
+
+    await waitFor(() => toFirst.length === 1 && toSecond.length === 1);
+    expect(toFirst).toEqual([{ from: 'second' }]);
+    expect(toSecond).toEqual([{ from: 'first', text: 'héllo' }]);
+  });
+
+  it('prefixes channels so deployments sharing a server stay apart', async () => {
+    const prod = await connect({ channelPrefix: 'prod:' });
+    const staging = await connect({ channelPrefix: 'staging:' });
+    const received: unknown[] = [];
+    staging.subscribe('rooms', message => received.push(message));
+    await waitFor(() => standIn.subscribed('staging:rooms') === 1);
+
+    prod.publish('rooms', 'leak');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual([]);
+    expect(standIn.commands).toContainEqual(['PUBLISH', 'prod:rooms', expect.any(String)]);
+  });
+
+  it('reads replies split across many TCP chunks', async () => {
+    standIn.splitReplies = true;
+    const first = await connect();
+    const second = await connect();
+    const received: unknown[] = [];
+    second.subscribe('rooms', message => received.push(message));
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 1);
+
+    const messages = [{ n: 1, text: 'x'.repeat(300) }, { n: 2, text: 'ünïcødé' }, { n: 3 }];
+    messages.forEach(message => first.publish('rooms', message));
+
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual(messages);
+    await expect(first.increment('seq:c1', 1000)).resolves.toBe(1);
+  });
+
+  it('unsubscribes from the server once the last handler is removed', async () => {
+    const backplane = await connect();
+    const offFirst = backplane.subscribe('rooms', () => {});
+    const offSecond = backplane.subscribe('rooms', () => {});
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 1);
+
+    offFirst();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(standIn.subscribed('oms-ws:rooms')).toBe(1);
+
+    offSecond();
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 0);
+  });
+
+  it('resubscribes after the connection drops and buffers publishes meanwhile', async () => {
+    const first = await connect();
+    const second = await connect();
+    const received: unknown[] = [];
+    second.subscribe('rooms', message => received.push(message));
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 1);
+
+    standIn.dropConnections();
+    await new Promise(resolve => setTimeout(resolve, 50)); // Let the clients see the close
+    first.publish('rooms', 'sent while down');
+    const published = () => standIn.commands.some(([name, , payload]) => name === 'PUBLISH' && payload?.includes('sent while down'));
+    expect(published()).toBe(false);
+
+    // Both sockets come back after the minimum backoff: SUBSCRIBE is re-sent and the buffered publish flushed
+    await waitFor(() => standIn.subscribed('oms-ws:rooms') === 1 && published(), 4000);
+    expect(standIn.commands.filter(([name]) => name === 'SUBSCRIBE')).toHaveLength(2);
+
+    first.publish('rooms', 'after reconnect');
+    await waitFor(() => received.includes('after reconnect'));
+  }, 10000);
+
+  it('shares counters between instances and expires them', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    await expect(first.increment('seq:c1', 60000)).resolves.toBe(1);
+    await expect(second.increment('seq:c1', 60000)).resolves.toBe(2);
+    const values = await Promise.all([first.increment('seq:c1', 60000), second.increment('seq:c1', 60000)]);
+    expect(values.sort()).toEqual([3, 4]);
+    await expect(first.increment('seq:c2', 60000)).resolves.toBe(1);
+
+    expect(standIn.commands).toContainEqual(['PEXPIRE', 'oms-ws:seq:c1', '60000']);
+  });
+
+  it('fails counter increments while disconnected instead of waiting', async () => {
+    const backplane = await connect();
+    standIn.dropConnections();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await expect(backplane.increment('seq:c1', 1000)).rejects.toThrow(/not connected/);
+  });
+
+  it('authenticates with the password from the URL', async () => {
+    standIn.password = 'secret';
+    const port = new URL(url).port;
+
+    url = `redis://:secret@127.0.0.1:${port}`;
+    const backplane = await connect();
+    expect(standIn.commands).toContainEqual(['AUTH', 'secret']);
+    await expect(backplane.increment('seq:c1', 1000)).resolves.toBe(1);
+
+    url = `redis://:wrong@127.0.0.1:${port}`;
+    await expect(RedisBackplane.connect(url)).rejects.toThrow(/AUTH failed/);
+  });
+
+  it('rejects when the server is unreachable at startup', async () => {
+    const port = new URL(url).port;
+    await standIn.close();
+    standIn = new RespStandIn();
+    await standIn.listen();
+
+    await expect(RedisBackplane.connect(`redis://127.0.0.1:${port}`)).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
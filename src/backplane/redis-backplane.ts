@@ -0,0 +1,394 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { Backplane, BackplaneEnvelope, BackplaneHandler } from './backplane.js';
+
+export interface RedisBackplaneOptions {
+  channelPrefix?: string; // Lets several deployments share one Redis (default: "oms-ws:")
+  maxPendingCommands?: number; // Publishes buffered while reconnecting; older ones are dropped (default: 1000)
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+const CRLF = '\r\n';
+const MIN_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+function encodeCommand(args: string[]): Buffer {
+  let out = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    out += `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`;
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * Incremental RESP2 reader - bytes go in as they arrive, complete replies come out
+ */
+class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const values: RespValue[] = [];
+    let parsed: { value: RespValue; next: number } | null;
+    while ((parsed = this.parse(0)) !== null) {
+      values.push(parsed.value);
+      this.buffer = this.buffer.subarray(parsed.next);
+    }
+    return values;
+  }
+
+  /**
+   * Parse one value starting at pos, or null if it hasn't fully arrived yet
+   */
+  private parse(pos: number): { value: RespValue; next: number } | null {
+    const lineEnd = this.buffer.indexOf(CRLF, pos);
+    if (lineEnd === -1) return null;
+    const line = this.buffer.toString('utf8', pos + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (String.fromCharCode(this.buffer[pos])) {
+      case '+':
+        return { value: line, next };
+      case '-':
+        return { value: new Error(line), next };
+      case ':':
+        return { value: parseInt(line, 10), next };
+      case '$': {
+        const length = parseInt(line, 10);
+        if (length === -1) return { value: null, next };
+        if (this.buffer.length < next + length + 2) return null;
+        return { value: this.buffer.toString('utf8', next, next + length), next: next + length + 2 };
+      }
+      case '*': {
+        const count = parseInt(line, 10);
+        if (count === -1) return { value: null, next };
+        const items: RespValue[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor);
+          if (!item) return null;
+          items.push(item.value);
+          cursor = item.next;
+        }
+        return { value: items, next: cursor };
+      }
+      default:
+        throw new Error(`Unexpected RESP type byte: ${this.buffer[pos]}`);
+    }
+  }
+}
+
+type ReplyCallback = (value: RespValue) => void;
+
+interface RespConnectionOptions {
+  name: string; // For logs
+  onReply: (value: RespValue) => void; // Replies nobody is waiting on (and subscription pushes)
+  orderedReplies?: boolean; // Replies arrive in command order, so request() can be used
+  onConnect?: () => string[][]; // Commands to send (after AUTH) every time the socket (re)connects
+  maxPending: number; // 0 = don't buffer while disconnected
+}
+
+/**
+ * One Redis socket that authenticates, reconnects with backoff and buffers commands meanwhile
+ */
+class RespConnection {
+  private url: URL;
+  private options: RespConnectionOptions;
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private hasConnected = false;
+  private closed = false;
+  private pending: Buffer[] = [];
+  private awaitingReplies: Array<ReplyCallback | null> = []; // One per written command, oldest first
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private firstConnect: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  constructor(url: URL, options: RespConnectionOptions) {
+    this.url = url;
+    this.options = options;
+  }
+
+  /**
+   * Resolves on the first successful connection; later drops reconnect on their own
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.firstConnect = { resolve, reject };
+      this.open();
+    });
+  }
+
+  send(args: string[]): void {
+    const command = encodeCommand(args);
+    if (this.connected && this.socket) {
+      this.write(this.socket, command, null);
+      return;
+    }
+    if (this.options.maxPending === 0) return;
+    this.pending.push(command);
+    if (this.pending.length > this.options.maxPending) {
+      this.pending.shift();
+    }
+  }
+
+  /**
+   * Send a command and wait for its reply. Rejects right away while disconnected rather than
+   * buffering, and when the connection drops before the reply arrives.
+   */
+  request(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      if (!this.options.orderedReplies || !this.connected || !this.socket) {
+        reject(new Error(`Redis ${this.options.name} is not connected`));
+        return;
+      }
+      this.write(this.socket, encodeCommand(args), value => value instanceof Error ? reject(value) : resolve(value));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    if (!socket || socket.destroyed) return;
+    await new Promise<void>(resolve => {
+      socket.once('close', () => resolve());
+      socket.end(encodeCommand(['QUIT']));
+      setTimeout(() => socket.destroy(), 1000).unref();
+    });
+  }
+
+  private write(socket: net.Socket, command: Buffer, reply: ReplyCallback | null): void {
+    if (this.options.orderedReplies) {
+      this.awaitingReplies.push(reply);
+    }
+    socket.write(command);
+  }
+
+  private failAwaitingReplies(): void {
+    const awaiting = this.awaitingReplies;
+    this.awaitingReplies = [];
+    for (const reply of awaiting) {
+      reply?.(new Error(`Redis ${this.options.name} connection closed before replying`));
+    }
+  }
+
+  private open(): net.Socket {
+    const host = this.url.hostname || '127.0.0.1';
+    const port = parseInt(this.url.port || '6379', 10);
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setNoDelay(true);
+    socket.setKeepAlive(true, 30000);
+    this.socket = socket;
+
+    const parser = new RespParser();
+    let awaitingAuth = false;
+    const ready = () => {
+      for (const command of this.options.onConnect?.() ?? []) {
+        this.write(socket, encodeCommand(command), null);
+      }
+      for (const command of this.pending) {
+        this.write(socket, command, null);
+      }
+      this.pending = [];
+      this.connected = true;
+      this.hasConnected = true;
+      this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      console.log(`[Backplane] Redis ${this.options.name} connected to ${host}:${port}`);
+      this.firstConnect?.resolve();
+      this.firstConnect = null;
+    };
+
+    socket.on(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+      if (!this.url.password) {
+        ready();
+        return;
+      }
+      const password = decodeURIComponent(this.url.password);
+      const auth = this.url.username ? ['AUTH', decodeURIComponent(this.url.username), password] : ['AUTH', password];
+      awaitingAuth = true;
+      socket.write(encodeCommand(auth));
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      try {
+        for (const value of parser.push(chunk)) {
+          if (!awaitingAuth) {
+            const reply = this.options.orderedReplies ? this.awaitingReplies.shift() : null;
+            if (reply) {
+              reply(value);
+            } else {
+              this.options.onReply(value);
+            }
+            continue;
+          }
+          awaitingAuth = false;
+          if (value instanceof Error) {
+            socket.destroy(new Error(`Redis AUTH failed: ${value.message}`));
+            return;
+          }
+          ready();
+        }
+      } catch (error) {
+        console.error(`[Backplane] Redis ${this.options.name} sent an unreadable reply:`, error);
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error(`[Backplane] Redis ${this.options.name} error:`, error.message);
+      this.firstConnect?.reject(error);
+      this.firstConnect = null;
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      this.failAwaitingReplies();
+      // A failed first connection isn't retried - connect() rejects and startup fails
+      if (this.closed || !this.hasConnected) return;
+      this.scheduleReconnect();
+    });
+
+    return socket;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    console.warn(`[Backplane] Redis ${this.options.name} disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+}
+
+/**
+ * RedisBackplane - Pub/sub over the Redis protocol, spoken directly over TCP (or TLS for rediss://)
+ *
+ * Uses two sockets, since a subscribed Redis connection can't issue PUBLISH. Works with Redis,
+ * Valkey, KeyDB and anything else implementing PUBLISH/SUBSCRIBE, INCR and PEXPIRE.
+ */
+export class RedisBackplane implements Backplane {
+  readonly nodeId: string = randomUUID();
+  private publisher: RespConnection;
+  private subscriber: RespConnection;
+  private channelPrefix: string;
+  private handlers: Map<string, Set<BackplaneHandler>> = new Map(); // Prefixed channel -> handlers
+
+  private constructor(url: URL, options: RedisBackplaneOptions) {
+    this.channelPrefix = options.channelPrefix ?? 'oms-ws:';
+    this.publisher = new RespConnection(url, {
+      name: 'publisher',
+      maxPending: options.maxPendingCommands ?? 1000,
+      orderedReplies: true,
+      onReply: (value) => {
+        if (value instanceof Error) {
+          console.error('[Backplane] Redis publisher error reply:', value.message);
+        }
+      },
+    });
+    this.subscriber = new RespConnection(url, {
+      name: 'subscriber',
+      maxPending: 0, // Subscriptions are re-sent on every connect instead
+      onReply: (value) => this.handleSubscriberReply(value),
+      onConnect: () => this.handlers.size > 0 ? [['SUBSCRIBE', ...this.handlers.keys()]] : [],
+    });
+  }
+
+  /**
+   * Connect both sockets. Fails if Redis is unreachable at startup; later outages are retried.
+   */
+  static async connect(url: string, options: RedisBackplaneOptions = {}): Promise<RedisBackplane> {
+    const backplane = new RedisBackplane(new URL(url), options);
+    try {
+      await Promise.all([backplane.publisher.connect(), backplane.subscriber.connect()]);
+    } catch (error) {
+      await backplane.close();
+      throw error;
+    }
+    return backplane;
+  }
+
+  publish(channel: string, message: unknown): void {
+    const envelope: BackplaneEnvelope = { origin: this.nodeId, message };
+    this.publisher.send(['PUBLISH', this.channelPrefix + channel, JSON.stringify(envelope)]);
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const redisKey = this.channelPrefix + key;
+    const reply = this.publisher.request(['INCR', redisKey]);
+    this.publisher.send(['PEXPIRE', redisKey, String(ttlMs)]);
+    const value = await reply;
+    if (typeof value !== 'number') {
+      throw new Error(`Unexpected INCR reply for ${redisKey}`);
+    }
+    return value;
+  }
+
+  subscribe(channel: string, handler: BackplaneHandler): () => void {
+    const key = this.channelPrefix + channel;
+    let handlers = this.handlers.get(key);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(key, handlers);
+      this.subscriber.send(['SUBSCRIBE', key]);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.handlers.get(key);
+      if (!current?.delete(handler) || current.size > 0) return;
+      this.handlers.delete(key);
+      this.subscriber.send(['UNSUBSCRIBE', key]);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.close(), this.subscriber.close()]);
+  }
+
+  private handleSubscriberReply(value: RespValue): void {
+    if (value instanceof Error) {
+      console.error('[Backplane] Redis subscriber error reply:', value.message);
+      return;
+    }
+    // Pushes look like ["message", channel, payload]; subscribe confirmations are ignored
+    if (!Array.isArray(value) || value[0] !== 'message' || typeof value[1] !== 'string' || typeof value[2] !== 'string') {
+      return;
+    }
+
+    const handlers = this.handlers.get(value[1]);
+    if (!handlers) return;
+
+    let envelope: BackplaneEnvelope;
+    try {
+      envelope = JSON.parse(value[2]);
+    } catch {
+      console.warn(`[Backplane] Ignoring malformed message on ${value[1]}`);
+      return;
+    }
+    if (envelope.origin === this.nodeId) return;
+
+    for (const handler of handlers) {
+      try {
+        handler(envelope.message);
+      } catch (error) {
+        console.error(`[Backplane] Handler failed channel=${value[1]}:`, error);
+      }
+    }
+  }
+}
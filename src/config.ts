@@ -1,11 +1,85 @@
 import dotenv from 'dotenv';
+import { LLMProviderName, isLLMProviderName } from './llm/provider.js';
+import { ChatHistoryStoreKind, isChatHistoryStoreKind } from './storage/chat-history-store.js';
+import { NotificationStoreKind, isNotificationStoreKind } from './storage/notification-store.js';
+import { ChatConcurrencyPolicy, isChatConcurrencyPolicy } from './websocket/handler.js';
+import { BackplaneKind, isBackplaneKind } from './backplane/backplane.js';
+import { ServerMode, isServerMode } from './api/http-server.js';
+import { ApiKey, parseApiKeys } from './auth/api-keys.js';
 
 dotenv.config();
 
 export interface Config {
   openAiApiKey: string;
+  geminiApiKey?: string;
+  llm: {
+    provider: LLMProviderName;
+    model?: string; // Falls back to the provider's default model
+    fallbacks: Array<{ provider: LLMProviderName; model?: string }>; // Tried in order when the primary fails
+    retry: {
+      maxRetries: number;
+      baseDelayMs: number;
+      maxDelayMs: number;
+    };
+  };
   wsPort: number;
+  serverMode: ServerMode;
+  httpApi: {
+    apiKeys: ApiKey[]; // Callers of /api/broadcast and /api/broadcast-admin
+    maxBodyBytes: number;
+    signatureToleranceSec: number;
+  };
+  auth: {
+    jwtSecret: string; // HS256 secret shared with whoever issues the chat and notification tokens
+    issuer?: string;
+    audience?: string;
+    authTimeoutMs: number;
+    notificationAuthTimeoutMs: number;
+    adminRole: string; // Token role that makes a notification client an admin
+  };
+  heartbeat: {
+    intervalMs: number;
+    timeoutMs: number;
+  };
+  replay: {
+    maxFrames: number;
+    ttlMs: number;
+  };
+  wsMaxPayloadBytes: number;
+  rateLimit: {
+    user: { capacity: number; refillPerSecond: number };
+    connection: { capacity: number; refillPerSecond: number };
+  };
+  chatConcurrency: {
+    policy: ChatConcurrencyPolicy;
+    maxQueuedMessages: number; // Waiting behind the message being answered
+  };
+  backplane: {
+    kind: BackplaneKind;
+    redisUrl?: string;
+    channelPrefix: string;
+  };
   outreachApiUrl?: string;
+  maxAgentIterations: number;
+  frontendFunctionTimeoutMs: number;
+  context: {
+    maxTokens: number; // Whole prompt; history gets what the other sections leave
+    systemTokens: number;
+    documentTokens: number;
+    memoryTokens: number;
+  };
+  notifications: {
+    store: NotificationStoreKind;
+    sqlitePath: string;
+    retentionMs: number; // Older notifications are no longer delivered and are deleted
+    maxMissedOnConnect: number; // Missed notifications sent when a client authenticates
+    schedulePollMs: number; // How often scheduled notifications are checked
+  };
+  chatHistory: {
+    store: ChatHistoryStoreKind;
+    sqlitePath: string;
+    databaseUrl?: string; // Required when store is postgres
+  };
   pinecone: {
     apiKey: string;
     indexHost?: string;
@@ -17,9 +91,80 @@ export interface Config {
 
 export function loadConfig(): Config {
   const openAiApiKey = process.env.OPENAI_API_KEY;
+  const geminiApiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GEMINI_API_KEY;
+  const llmProvider = process.env.LLM_PROVIDER || LLMProviderName.OpenAI;
+  const llmModel = process.env.LLM_MODEL;
+  // Comma-separated provider[:model] list, e.g. "openai:gpt-4o-mini,gemini:gemini-2.5-flash-lite"
+  const llmFallbacks = (process.env.LLM_FALLBACKS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, ...model] = entry.split(':');
+      if (!isLLMProviderName(provider)) {
+        throw new Error(`Unsupported provider in LLM_FALLBACKS: ${provider}`);
+      }
+      return { provider, model: model.join(':') || undefined };
+    });
+  const llmMaxRetries = parseInt(process.env.LLM_MAX_RETRIES || '2', 10);
+  const llmRetryBaseMs = parseInt(process.env.LLM_RETRY_BASE_MS || '500', 10);
+  const llmRetryMaxMs = parseInt(process.env.LLM_RETRY_MAX_MS || '8000', 10);
   // Support PORT (for Render/deployment) or WS_PORT, default 8080 to match frontend
   const wsPort = parseInt(process.env.PORT || process.env.WS_PORT || '8080', 10);
+  // single: everything on wsPort; dual: chat on wsPort, HTTP routes and notifications on wsPort + 1
+  const serverMode = process.env.SERVER_MODE || ServerMode.Single;
+  // Keys for the broadcast endpoints: "id:secret:scope|scope,..." with scopes broadcast and admin
+  const broadcastApiKeys = parseApiKeys(process.env.BROADCAST_API_KEYS || '');
+  const broadcastMaxBodyBytes = parseInt(process.env.BROADCAST_MAX_BODY_BYTES || '65536', 10);
+  const broadcastSignatureToleranceSec = parseInt(process.env.BROADCAST_SIGNATURE_TOLERANCE_SEC || '300', 10);
   const outreachApiUrl = process.env.OUTREACH_API_URL;
+  const jwtSecret = process.env.JWT_SECRET;
+  const jwtIssuer = process.env.JWT_ISSUER;
+  const jwtAudience = process.env.JWT_AUDIENCE;
+  // How long a chat connection may stay open without authenticating
+  const authTimeoutMs = parseInt(process.env.WS_AUTH_TIMEOUT_MS || '10000', 10);
+  // Same for notification connections, which use the same tokens
+  const notificationAuthTimeoutMs = parseInt(process.env.NOTIFICATION_AUTH_TIMEOUT_MS || '10000', 10);
+  const adminRole = process.env.NOTIFICATION_ADMIN_ROLE || 'admin';
+  // Ping sockets every interval; terminate ones that don't pong within the timeout
+  const heartbeatIntervalMs = parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10);
+  const heartbeatTimeoutMs = parseInt(process.env.WS_HEARTBEAT_TIMEOUT_MS || '10000', 10);
+  // Room frames kept per chat for clients resuming with last_seq
+  const replayMaxFrames = parseInt(process.env.CHAT_REPLAY_BUFFER_SIZE || '2000', 10);
+  const replayTtlMs = parseInt(process.env.CHAT_REPLAY_TTL_MS || '300000', 10);
+  // Largest inbound chat frame accepted (cart data and selected documents included)
+  const wsMaxPayloadBytes = parseInt(process.env.WS_MAX_PAYLOAD_BYTES || '262144', 10);
+  // Token buckets: chat messages per user (across connections) and frames per connection
+  const userMessagesPerMinute = parseInt(process.env.RATE_LIMIT_USER_MESSAGES_PER_MINUTE || '20', 10);
+  const userBurst = parseInt(process.env.RATE_LIMIT_USER_BURST || '5', 10);
+  const connectionFramesPerSecond = parseInt(process.env.RATE_LIMIT_CONNECTION_FRAMES_PER_SECOND || '20', 10);
+  const connectionBurst = parseInt(process.env.RATE_LIMIT_CONNECTION_BURST || '40', 10);
+  // What happens to a user message sent while the chat is still answering: queue (default) or reject
+  const chatConcurrencyPolicy = process.env.CHAT_CONCURRENCY_POLICY || ChatConcurrencyPolicy.Queue;
+  const chatMaxQueuedMessages = parseInt(process.env.CHAT_MAX_QUEUED_MESSAGES || '5', 10);
+  // How replicas reach each other's sockets: local (single replica) or redis
+  const backplaneKind = process.env.BACKPLANE || BackplaneKind.Local;
+  const backplaneRedisUrl = process.env.BACKPLANE_REDIS_URL || process.env.REDIS_URL;
+  const backplaneChannelPrefix = process.env.BACKPLANE_CHANNEL_PREFIX || 'oms-ws:';
+  // Upper bound on tool rounds per user message (a final turn without tools follows them)
+  const maxAgentIterations = parseInt(process.env.MAX_AGENT_ITERATIONS || '5', 10);
+  // How long to wait for the browser to answer a FunctionExecuteRequest
+  const frontendFunctionTimeoutMs = parseInt(process.env.FRONTEND_FUNCTION_TIMEOUT_MS || '30000', 10);
+  // Token budget for the prompt (≈4 characters per token)
+  const contextMaxTokens = parseInt(process.env.CONTEXT_MAX_TOKENS || '12000', 10);
+  const contextSystemTokens = parseInt(process.env.CONTEXT_SYSTEM_TOKENS || '2000', 10);
+  const contextDocumentTokens = parseInt(process.env.CONTEXT_DOCUMENT_TOKENS || '4000', 10);
+  const contextMemoryTokens = parseInt(process.env.CONTEXT_MEMORY_TOKENS || '1500', 10);
+  // Where conversations are kept: memory (lost on restart), sqlite (local file) or postgres (shared)
+  const chatHistoryStore = process.env.CHAT_HISTORY_STORE || ChatHistoryStoreKind.Memory;
+  const chatHistorySqlitePath = process.env.CHAT_HISTORY_SQLITE_PATH || './data/chat-history.db';
+  const chatHistoryDatabaseUrl = process.env.CHAT_HISTORY_DATABASE_URL || process.env.DATABASE_URL;
+  // Where notifications and read receipts are kept: memory (lost on restart) or sqlite
+  const notificationStore = process.env.NOTIFICATION_STORE || NotificationStoreKind.Memory;
+  const notificationSqlitePath = process.env.NOTIFICATION_SQLITE_PATH || './data/notifications.db';
+  const notificationRetentionMs = parseInt(process.env.NOTIFICATION_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+  const notificationMaxMissed = parseInt(process.env.NOTIFICATION_MAX_MISSED || '100', 10);
+  const notificationSchedulePollMs = parseInt(process.env.NOTIFICATION_SCHEDULE_POLL_MS || '1000', 10);
   const pineconeApiKey = process.env.PINECONE_API_KEY;
   const pineconeIndexHost = process.env.PINECONE_INDEX_HOST; // preferred if provided
   const pineconeIndexName = process.env.PINECONE_INDEX;
@@ -30,10 +175,117 @@ export function loadConfig(): Config {
     throw new Error('OPENAI_API_KEY is required');
   }
 
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is required');
+  }
+
+  if (!isLLMProviderName(llmProvider)) {
+    throw new Error(`Unsupported LLM_PROVIDER: ${llmProvider}`);
+  }
+
+  if (llmProvider === LLMProviderName.Gemini && !geminiApiKey) {
+    throw new Error('GOOGLE_GENERATIVE_AI_API_KEY is required when LLM_PROVIDER=gemini');
+  }
+
+  if (!isChatConcurrencyPolicy(chatConcurrencyPolicy)) {
+    throw new Error(`Unsupported CHAT_CONCURRENCY_POLICY: ${chatConcurrencyPolicy}`);
+  }
+
+  if (!isServerMode(serverMode)) {
+    throw new Error(`Unsupported SERVER_MODE: ${serverMode}`);
+  }
+
+  if (!isBackplaneKind(backplaneKind)) {
+    throw new Error(`Unsupported BACKPLANE: ${backplaneKind}`);
+  }
+
+  if (backplaneKind === BackplaneKind.Redis && !backplaneRedisUrl) {
+    throw new Error('BACKPLANE_REDIS_URL is required when BACKPLANE=redis');
+  }
+
+  if (!isNotificationStoreKind(notificationStore)) {
+    throw new Error(`Unsupported NOTIFICATION_STORE: ${notificationStore}`);
+  }
+
+  if (!isChatHistoryStoreKind(chatHistoryStore)) {
+    throw new Error(`Unsupported CHAT_HISTORY_STORE: ${chatHistoryStore}`);
+  }
+
+  if (chatHistoryStore === ChatHistoryStoreKind.Postgres && !chatHistoryDatabaseUrl) {
+    throw new Error('CHAT_HISTORY_DATABASE_URL is required when CHAT_HISTORY_STORE=postgres');
+  }
+
   return {
     openAiApiKey,
+    geminiApiKey,
+    llm: {
+      provider: llmProvider,
+      model: llmModel,
+      fallbacks: llmFallbacks,
+      retry: {
+        maxRetries: llmMaxRetries,
+        baseDelayMs: llmRetryBaseMs,
+        maxDelayMs: llmRetryMaxMs,
+      },
+    },
     wsPort,
+    serverMode,
+    httpApi: {
+      apiKeys: broadcastApiKeys,
+      maxBodyBytes: broadcastMaxBodyBytes,
+      signatureToleranceSec: broadcastSignatureToleranceSec,
+    },
+    auth: {
+      jwtSecret,
+      issuer: jwtIssuer,
+      audience: jwtAudience,
+      authTimeoutMs,
+      notificationAuthTimeoutMs,
+      adminRole,
+    },
+    heartbeat: {
+      intervalMs: heartbeatIntervalMs,
+      timeoutMs: heartbeatTimeoutMs,
+    },
+    replay: {
+      maxFrames: replayMaxFrames,
+      ttlMs: replayTtlMs,
+    },
+    wsMaxPayloadBytes,
+    rateLimit: {
+      user: { capacity: userBurst, refillPerSecond: userMessagesPerMinute / 60 },
+      connection: { capacity: connectionBurst, refillPerSecond: connectionFramesPerSecond },
+    },
+    chatConcurrency: {
+      policy: chatConcurrencyPolicy,
+      maxQueuedMessages: chatMaxQueuedMessages,
+    },
+    backplane: {
+      kind: backplaneKind,
+      redisUrl: backplaneRedisUrl,
+      channelPrefix: backplaneChannelPrefix,
+    },
     outreachApiUrl,
+    maxAgentIterations,
+    frontendFunctionTimeoutMs,
+    context: {
+      maxTokens: contextMaxTokens,
+      systemTokens: contextSystemTokens,
+      documentTokens: contextDocumentTokens,
+      memoryTokens: contextMemoryTokens,
+    },
+    notifications: {
+      store: notificationStore,
+      sqlitePath: notificationSqlitePath,
+      retentionMs: notificationRetentionMs,
+      maxMissedOnConnect: notificationMaxMissed,
+      schedulePollMs: notificationSchedulePollMs,
+    },
+    chatHistory: {
+      store: chatHistoryStore,
+      sqlitePath: chatHistorySqlitePath,
+      databaseUrl: chatHistoryDatabaseUrl,
+    },
     pinecone: pineconeApiKey
       ? {
           apiKey: pineconeApiKey,
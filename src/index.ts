@@ -6,6 +6,15 @@ import { NotificationWebSocketServer } from './notifications/server.js';
 import { EmbeddingService } from './services/embeddings.js';
 import { PineconeService } from './services/pinecone.js';
 import { EmbeddingQueue } from './queues/embedding-queue.js';
+import { LLMProvider, OpenAIProvider, GeminiProvider } from './llm/index.js';
+import {
+  createChatHistoryStore,
+  createNotificationStore,
+  createPreferenceStore,
+  createScheduleStore,
+} from './storage/index.js';
+import { createBackplane } from './backplane/index.js';
+import { createHttpServer, ServerMode } from './api/http-server.js';
 
 async function main() {
   try {
@@ -25,29 +34,106 @@ async function main() {
       : undefined;
     const embeddingQueue = pinecone ? new EmbeddingQueue(embedder, pinecone) : undefined;
 
+    // LLM providers available for chats to select from
+    const providers: LLMProvider[] = [new OpenAIProvider(config.openAiApiKey)];
+    if (config.geminiApiKey) {
+      providers.push(new GeminiProvider(config.geminiApiKey));
+    }
+
+    // Chat history store (memory, sqlite or postgres)
+    const chatHistoryStore = await createChatHistoryStore(config.chatHistory);
+
     const orchestrator = new OrchestratorService(config.openAiApiKey, {
       embedder,
       pinecone,
       embeddingQueue,
+      maxIterations: config.maxAgentIterations,
+      providers,
+      defaultLLM: config.llm,
+      llmFallbacks: config.llm.fallbacks,
+      retryPolicy: config.llm.retry,
+      frontendFunctionTimeoutMs: config.frontendFunctionTimeoutMs,
+      chatHistoryStore,
+      contextBudget: config.context,
     });
-    const messageHandler = new MessageHandler(orchestrator);
-    
-    // Initialize Chat WebSocket Server (standalone on port)
-    const chatServer = new WebSocketServer(config.wsPort, messageHandler);
-    chatServer.start();
+    // Pub/sub between replicas (in-process unless BACKPLANE=redis)
+    const backplane = await createBackplane(config.backplane);
+
+    const messageHandler = new MessageHandler(orchestrator, config.chatConcurrency);
     
-    // Initialize Notification WebSocket Server (standalone on port + 1)
-    const notificationPort = config.wsPort + 1;
-    const notificationServer = new NotificationWebSocketServer();
-    notificationServer.createStandaloneWebSocketServer(notificationPort);
+    const chatServer = new WebSocketServer(config.wsPort, messageHandler, {
+      auth: {
+        jwtSecret: config.auth.jwtSecret,
+        issuer: config.auth.issuer,
+        audience: config.auth.audience,
+        authTimeoutMs: config.auth.authTimeoutMs,
+      },
+      heartbeat: config.heartbeat,
+      replay: config.replay,
+      maxPayloadBytes: config.wsMaxPayloadBytes,
+      rateLimit: config.rateLimit,
+      backplane,
+      chatHistory: chatHistoryStore,
+    });
+    const notificationStore = await createNotificationStore(config.notifications);
+    const scheduleStore = await createScheduleStore(config.notifications);
+    const preferenceStore = await createPreferenceStore(config.notifications);
+    const notificationServer = new NotificationWebSocketServer({
+      auth: {
+        jwtSecret: config.auth.jwtSecret,
+        issuer: config.auth.issuer,
+        audience: config.auth.audience,
+        authTimeoutMs: config.auth.notificationAuthTimeoutMs,
+        adminRole: config.auth.adminRole,
+      },
+      store: notificationStore,
+      maxMissedOnConnect: config.notifications.maxMissedOnConnect,
+      scheduleStore,
+      schedulePollMs: config.notifications.schedulePollMs,
+      preferenceStore,
+    });
+    notificationServer.createNoServerWebSocketServer();
+    notificationServer.useBackplane(backplane);
+
+    if (config.httpApi.apiKeys.length === 0) {
+      console.warn('[HTTP] BROADCAST_API_KEYS is not set - /api/broadcast and /api/broadcast-admin will refuse every request');
+    }
+
+    let httpServer;
+    if (config.serverMode === ServerMode.Dual) {
+      // Chat standalone on wsPort; HTTP routes and notifications on wsPort + 1
+      chatServer.start();
+      httpServer = createHttpServer(notificationServer, config.httpApi);
+      httpServer.listen(config.wsPort + 1);
+      console.log(`[HTTP] Chat on port ${config.wsPort}, HTTP routes and notifications on port ${config.wsPort + 1}`);
+    } else {
+      chatServer.startNoServer();
+      httpServer = createHttpServer(notificationServer, config.httpApi, chatServer);
+      httpServer.listen(config.wsPort);
+      console.log(`[HTTP] Chat, notifications and HTTP routes on port ${config.wsPort}`);
+    }
 
     // Graceful shutdown
-    const shutdown = () => {
-      if ((chatServer as any).server) {
-        (chatServer as any).server.close();
+    const shutdown = async () => {
+      chatServer.stop();
+      notificationServer.close();
+      httpServer.close();
+      try {
+        await backplane.close();
+      } catch (error) {
+        console.error('Failed to close backplane:', error);
+      }
+      try {
+        await chatHistoryStore.close();
+      } catch (error) {
+        console.error('Failed to close chat history store:', error);
       }
-      if (notificationServer.wss) {
-        notificationServer.wss.close();
+      try {
+        await notificationStore.close();
+        await scheduleStore.close();
+        await preferenceStore.close();
+      } catch (error) {
+        console.error('Failed to close notification store:', error);
       }
       process.exit(0);
     };
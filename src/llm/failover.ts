@@ -0,0 +1,250 @@
+import axios from 'axios';
+import { ChatMessage } from '../types/message.js';
+import {
+  FunctionDeclaration,
+  LLMProvider,
+  LLMProviderName,
+  LLMResponse,
+  LLMSelection,
+  LLMStreamEvent,
+} from './provider.js';
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries per provider, on top of the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number; // Longer Retry-After hints skip straight to the next provider
+}
+
+export interface LLMAttempt {
+  provider: LLMProviderName;
+  model: string;
+  attempt: number; // 1-based, per provider
+  outcome: 'success' | 'retry' | 'failover' | 'failed';
+  status?: number;
+  error?: string;
+  retryInMs?: number;
+}
+
+export interface LLMCallOptions {
+  useFunctions?: boolean;
+  additionalFunctions?: FunctionDeclaration[];
+  abortSignal?: AbortSignal;
+  onAttempt?: (attempt: LLMAttempt) => void;
+}
+
+export class LLMChainExhaustedError extends Error {
+  readonly attempts: LLMAttempt[];
+
+  constructor(attempts: LLMAttempt[], cause: unknown) {
+    const last = attempts[attempts.length - 1];
+    super(`All LLM providers failed (last: ${last?.provider}/${last?.model}: ${last?.error ?? 'unknown error'})`);
+    this.name = 'LLMChainExhaustedError';
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Rate limits, timeouts, network failures and 5xx are worth retrying on the same provider.
+ * Anything else (bad key, bad request) goes straight to the next provider in the chain.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isCancel(error)) return false;
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeError(error: unknown): { status?: number; error: string } {
+  if (axios.isAxiosError(error)) {
+    return { status: error.response?.status, error: error.message };
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs LLM requests against a primary provider/model, retrying transient failures with
+ * exponential backoff and jitter, then falling back through an ordered chain of alternatives.
+ */
+export class LLMFailoverChain {
+  private providers: Map<LLMProviderName, LLMProvider>;
+  private fallbacks: LLMSelection[];
+  private policy: RetryPolicy;
+
+  constructor(providers: Map<LLMProviderName, LLMProvider>, fallbacks: LLMSelection[], policy: RetryPolicy) {
+    this.providers = providers;
+    this.policy = policy;
+    this.fallbacks = fallbacks.filter(selection => {
+      if (!providers.has(selection.provider)) {
+        console.warn(`[LLM] Skipping fallback ${selection.provider}/${selection.model}: provider not configured`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  async call(primary: LLMSelection, messages: ChatMessage[], options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const attempts: LLMAttempt[] = [];
+    let lastError: unknown;
+
+    const chain = this.buildChain(primary);
+    for (const [index, selection] of chain.entries()) {
+      const provider = this.providers.get(selection.provider)!;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const response = await provider.call(
+            messages,
+            selection.model,
+            options.useFunctions ?? false,
+            options.additionalFunctions ?? [],
+            options.abortSignal
+          );
+          this.report(attempts, options, { ...selection, attempt, outcome: 'success' });
+          return response;
+        } catch (error) {
+          lastError = error;
+          const delay = this.handleFailure(selection, attempt, error, index === chain.length - 1, attempts, options);
+          if (delay === null) break;
+          await sleep(delay, options.abortSignal);
+        }
+      }
+    }
+
+    throw new LLMChainExhaustedError(attempts, lastError);
+  }
+
+  /**
+   * Stream through the chain. A provider is only retried (or replaced) if it failed before
+   * yielding anything - once text has reached the client, a mid-stream failure is rethrown.
+   */
+  async *stream(primary: LLMSelection, messages: ChatMessage[], options: LLMCallOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    const attempts: LLMAttempt[] = [];
+    let lastError: unknown;
+
+    const chain = this.buildChain(primary);
+    for (const [index, selection] of chain.entries()) {
+      const provider = this.providers.get(selection.provider)!;
+      for (let attempt = 1; ; attempt++) {
+        let started = false;
+        try {
+          const events = provider.stream(
+            messages,
+            selection.model,
+            options.useFunctions ?? false,
+            options.additionalFunctions ?? [],
+            options.abortSignal
+          );
+          for await (const event of events) {
+            if (!started) {
+              started = true;
+              this.report(attempts, options, { ...selection, attempt, outcome: 'success' });
+            }
+            yield event;
+          }
+          if (!started) {
+            this.report(attempts, options, { ...selection, attempt, outcome: 'success' });
+          }
+          return;
+        } catch (error) {
+          if (started) throw error;
+          lastError = error;
+          const delay = this.handleFailure(selection, attempt, error, index === chain.length - 1, attempts, options);
+          if (delay === null) break;
+          await sleep(delay, options.abortSignal);
+        }
+      }
+    }
+
+    throw new LLMChainExhaustedError(attempts, lastError);
+  }
+
+  private buildChain(primary: LLMSelection): LLMSelection[] {
+    const chain = [primary];
+    for (const fallback of this.fallbacks) {
+      if (!chain.some(s => s.provider === fallback.provider && s.model === fallback.model)) {
+        chain.push(fallback);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Record a failed attempt and decide what happens next.
+   * Returns the delay before retrying the same provider, or null to move on to the next one.
+   */
+  private handleFailure(
+    selection: LLMSelection,
+    attempt: number,
+    error: unknown,
+    isLastInChain: boolean,
+    attempts: LLMAttempt[],
+    options: LLMCallOptions
+  ): number | null {
+    // A user-initiated stop is not a provider failure
+    if (options.abortSignal?.aborted) throw error;
+
+    const details = describeError(error);
+    const delay = isRetryableError(error) && attempt <= this.policy.maxRetries
+      ? this.getRetryDelay(error, attempt)
+      : null;
+
+    this.report(attempts, options, {
+      ...selection,
+      attempt,
+      ...details,
+      outcome: delay !== null ? 'retry' : isLastInChain ? 'failed' : 'failover',
+      retryInMs: delay ?? undefined,
+    });
+    console.warn(`[LLM] ${selection.provider}/${selection.model} attempt=${attempt} failed status=${details.status ?? 'n/a'} error=${details.error}${delay !== null ? ` retryInMs=${delay}` : ''}`);
+    return delay;
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    const retryAfter = axios.isAxiosError(error)
+      ? parseRetryAfter(error.response?.headers?.['retry-after'])
+      : undefined;
+    if (retryAfter !== undefined) {
+      // Waiting longer than the policy allows is worse than trying the next provider
+      return retryAfter <= this.policy.maxDelayMs ? retryAfter : null;
+    }
+
+    const exponential = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (attempt - 1));
+    // Equal jitter: half fixed, half random, so concurrent chats don't retry in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private report(attempts: LLMAttempt[], options: LLMCallOptions, attempt: LLMAttempt): void {
+    attempts.push(attempt);
+    options.onAttempt?.(attempt);
+  }
+}
@@ -0,0 +1,189 @@
+import { AvailableFunction, FunctionDeclaration } from './provider.js';
+
+/**
+ * Backend-executed functions, declared to every LLM provider
+ */
+export const BACKEND_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: AvailableFunction.BrowsePublishers,
+    description: "Browse and search for publishers/websites for backlinking opportunities. Returns data to display in user interface. Use this when user asks to find, search, browse, or show publishers/websites.",
+    parameters: {
+      type: "object",
+      properties: {
+        // Basic filters
+        niche: {
+          type: "string",
+          description: "Filter by niche/category (e.g., Technology, Health, Business, Finance, Travel)"
+        },
+        language: {
+          type: "string",
+          description: "Filter by language (e.g., English, Spanish, French)"
+        },
+        country: {
+          type: "string",
+          description: "Filter by country (e.g., United States, United Kingdom, Canada, India)"
+        },
+        searchQuery: {
+          type: "string",
+          description: "Search query for website names or niches (searches in website names and niche tags)"
+        },
+        
+        // Authority metrics
+        daMin: {
+          type: "number",
+          description: "Minimum Domain Authority (0-100). DA predicts ranking ability."
+        },
+        daMax: {
+          type: "number",
+          description: "Maximum Domain Authority (0-100)"
+        },
+        paMin: {
+          type: "number",
+          description: "Minimum Page Authority (0-100). PA predicts page ranking ability."
+        },
+        paMax: {
+          type: "number",
+          description: "Maximum Page Authority (0-100)"
+        },
+        drMin: {
+          type: "number",
+          description: "Minimum Domain Rating (0-100). DR measures link profile strength."
+        },
+        drMax: {
+          type: "number",
+          description: "Maximum Domain Rating (0-100)"
+        },
+        
+        // Quality filters
+        spamMin: {
+          type: "number",
+          description: "Minimum spam score (0-100). Lower is better quality."
+        },
+        spamMax: {
+          type: "number",
+          description: "Maximum spam score (0-100). Lower is better quality."
+        },
+        
+        // Traffic metrics
+        semrushOverallTrafficMin: {
+          type: "number",
+          description: "Minimum Semrush overall traffic (monthly visits)"
+        },
+        semrushOrganicTrafficMin: {
+          type: "number",
+          description: "Minimum Semrush organic traffic (monthly organic visits)"
+        },
+        
+        // Pricing
+        priceMin: {
+          type: "number",
+          description: "Minimum price in USD for backlink placement"
+        },
+        priceMax: {
+          type: "number",
+          description: "Maximum price in USD for backlink placement"
+        },
+        
+        // Backlink attributes
+        backlinkNature: {
+          type: "string",
+          description: "Type of backlink attribute",
+          enum: ["do-follow", "no-follow"]
+        },
+        
+        // Availability
+        availability: {
+          type: "boolean",
+          description: "Filter by availability status (true = available only)"
+        },
+        
+        // Text search
+        remarkIncludes: {
+          type: "string",
+          description: "Search in website remarks/notes (substring match)"
+        },
+        
+        // Pagination
+        page: {
+          type: "number",
+          description: "Page number for pagination (default: 1)"
+        },
+        limit: {
+          type: "number",
+          description: "Number of results per page (default: 8)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: AvailableFunction.ViewCart,
+    description: "View the current contents of the shopping cart. Use this to show the user their cart and ask if they want to edit or proceed to checkout.",
+    parameters: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: AvailableFunction.AddToCart,
+    description: "Add a publisher or product to the shopping cart. Use this when user mentions specific publishers they want to add or says 'add to cart'.",
+    parameters: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["publisher", "product"],
+          description: "Type of item to add"
+        },
+        name: {
+          type: "string",
+          description: "Name of the item"
+        },
+        price: {
+          type: "number",
+          description: "Price of the item in USD"
+        },
+        quantity: {
+          type: "number",
+          description: "Quantity to add (default: 1)"
+        },
+        metadata: {
+          type: "object",
+          description: "Additional metadata about the item (publisherId, website, niche, dr, da)",
+          properties: {
+            publisherId: { type: "string" },
+            website: { type: "string" },
+            niche: { type: "array", items: { type: "string" } },
+            dr: { type: "number" },
+            da: { type: "number" }
+          }
+        }
+      },
+      required: ["type", "name", "price"]
+    }
+  },
+  {
+    name: AvailableFunction.ProcessPayment,
+    description: "Process payment for cart items using Stripe. Use this when user is ready to checkout and says they're done adding items.",
+    parameters: {
+      type: "object",
+      properties: {
+        cartItems: {
+          type: "array",
+          description: "Items in the cart to process payment for",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              name: { type: "string" },
+              price: { type: "number" },
+              quantity: { type: "number" }
+            }
+          }
+        }
+      },
+      required: ["cartItems"]
+    }
+  }
+];
@@ -1,5 +1,16 @@
 import axios, { AxiosInstance } from 'axios';
 import { ChatMessage, Role } from '../types/message.js';
+import {
+  FunctionCallResponse,
+  FunctionDeclaration,
+  LLMProvider,
+  LLMProviderName,
+  LLMResponse,
+  LLMStreamEvent,
+  PlanResult,
+} from './provider.js';
+import { BACKEND_FUNCTION_DECLARATIONS } from './functions.js';
+import { readSseData } from './sse.js';
 
 export enum GeminiModel {
   GeminiPro = "gemini-2.5-pro",
@@ -7,56 +18,32 @@ export enum GeminiModel {
   GeminiLite = "gemini-2.5-flash-lite",
 }
 
-export enum AvailableFunction {
-  BrowsePublishers = "browsePublishers",
-  GetPublisherDetails = "getPublisherDetails",
-  GetWeather = "getWeather",
-}
+// Used when no model is given, and reported as defaultModel
+const DEFAULT_MODEL = GeminiModel.GeminiMed;
 
-export enum FunctionExecutionLocation {
-  Backend = "backend",
-  Frontend = "frontend",
+interface GeminiPart {
+  text?: string;
+  functionCall?: { name: string; args: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
 }
 
-export interface FunctionCallResponse {
-  name: string; // Can be AvailableFunction or any frontend function name
-  args: Record<string, unknown>;
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
 }
 
 export interface GeminiResponse {
   candidates: Array<{
     content: {
-      parts: Array<{
-        text?: string;
-        functionCall?: FunctionCallResponse;
-      }>;
+      parts: GeminiPart[];
     };
     finishReason?: string;
   }>;
 }
 
-export interface FunctionDeclaration {
-  name: string;
-  description: string;
-  parameters: {
-    type: string;
-    properties: Record<string, unknown>;
-    required: string[];
-  };
-}
-
-export interface Todo {
-  task: string;
-  description: string;
-  dependencies?: string[];
-  estimated_time?: number;
-}
-
-export interface PlanResult {
-  todos: Todo[];
-}
-
-export class GeminiProvider {
+export class GeminiProvider implements LLMProvider {
+  readonly name = LLMProviderName.Gemini;
+  readonly defaultModel: string = DEFAULT_MODEL;
   private client: AxiosInstance;
   private apiKey: string;
 
@@ -67,150 +54,69 @@ export class GeminiProvider {
     });
   }
 
-  private getEndpoint(model: GeminiModel): string {
-    return `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${this.apiKey}`;
+  private getEndpoint(model: string, method: 'generateContent' | 'streamGenerateContent' = 'generateContent'): string {
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${this.apiKey}` : `key=${this.apiKey}`;
+    return `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${query}`;
   }
 
-  private createFunctionDeclarations(additionalFunctions: FunctionDeclaration[] = []): FunctionDeclaration[] {
-    const backendFunctions = [
-      {
-        name: AvailableFunction.BrowsePublishers,
-        description: "Browse and search for publishers/websites for backlinking opportunities. Returns data to display in user interface. Use this when user asks to find, search, browse, or show publishers/websites.",
-        parameters: {
-          type: "object",
-          properties: {
-            // Basic filters
-            niche: {
-              type: "string",
-              description: "Filter by niche/category (e.g., Technology, Health, Business, Finance, Travel)"
-            },
-            language: {
-              type: "string",
-              description: "Filter by language (e.g., English, Spanish, French)"
-            },
-            country: {
-              type: "string",
-              description: "Filter by country (e.g., United States, United Kingdom, Canada, India)"
-            },
-            searchQuery: {
-              type: "string",
-              description: "Search query for website names or niches (searches in website names and niche tags)"
-            },
-            
-            // Authority metrics
-            daMin: {
-              type: "number",
-              description: "Minimum Domain Authority (0-100). DA predicts ranking ability."
-            },
-            daMax: {
-              type: "number",
-              description: "Maximum Domain Authority (0-100)"
-            },
-            paMin: {
-              type: "number",
-              description: "Minimum Page Authority (0-100). PA predicts page ranking ability."
-            },
-            paMax: {
-              type: "number",
-              description: "Maximum Page Authority (0-100)"
-            },
-            drMin: {
-              type: "number",
-              description: "Minimum Domain Rating (0-100). DR measures link profile strength."
-            },
-            drMax: {
-              type: "number",
-              description: "Maximum Domain Rating (0-100)"
-            },
-            
-            // Quality filters
-            spamMin: {
-              type: "number",
-              description: "Minimum spam score (0-100). Lower is better quality."
-            },
-            spamMax: {
-              type: "number",
-              description: "Maximum spam score (0-100). Lower is better quality."
-            },
-            
-            // Traffic metrics
-            semrushOverallTrafficMin: {
-              type: "number",
-              description: "Minimum Semrush overall traffic (monthly visits)"
-            },
-            semrushOrganicTrafficMin: {
-              type: "number",
-              description: "Minimum Semrush organic traffic (monthly organic visits)"
-            },
-            
-            // Pricing
-            priceMin: {
-              type: "number",
-              description: "Minimum price in USD for backlink placement"
-            },
-            priceMax: {
-              type: "number",
-              description: "Maximum price in USD for backlink placement"
-            },
-            
-            // Backlink attributes
-            backlinkNature: {
-              type: "string",
-              description: "Type of backlink attribute",
-              enum: ["do-follow", "no-follow"]
-            },
-            
-            // Availability
-            availability: {
-              type: "boolean",
-              description: "Filter by availability status (true = available only)"
-            },
-            
-            // Text search
-            remarkIncludes: {
-              type: "string",
-              description: "Search in website remarks/notes (substring match)"
-            },
-            
-            // Pagination
-            page: {
-              type: "number",
-              description: "Page number for pagination (default: 1)"
-            },
-            limit: {
-              type: "number",
-              description: "Number of results per page (default: 8)"
-            }
-          },
-          required: []
-        }
-      }
-    ];
-
-    return [...backendFunctions, ...additionalFunctions];
+  private createFunctionDeclarations(additionalFunctions: FunctionDeclaration[] = []): Array<Record<string, unknown>> {
+    // Gemini rejects OBJECT schemas with no properties, so parameterless functions omit them
+    return [...BACKEND_FUNCTION_DECLARATIONS, ...additionalFunctions].map(func => (
+      Object.keys(func.parameters.properties).length > 0
+        ? { name: func.name, description: func.description, parameters: func.parameters }
+        : { name: func.name, description: func.description }
+    ));
   }
 
-  async call(
+  private buildPayload(
     messages: ChatMessage[],
-    model: GeminiModel = GeminiModel.GeminiLite,
-    useFunctions: boolean = false,
-    additionalFunctions: FunctionDeclaration[] = []
-  ): Promise<GeminiResponse> {
-    // Convert chat messages to Gemini format
-    // For now, just format as text. In production, you'd use proper role-based formatting
-    const contents = messages.map(msg => {
+    useFunctions: boolean,
+    additionalFunctions: FunctionDeclaration[]
+  ): Record<string, unknown> {
+    // Gemini has no tool call ids; a model functionCall turn must be answered by the same number
+    // of functionResponse parts, so only keep results whose call is present and vice versa
+    const answeredToolCallIds = new Set(
+      messages
+        .filter(msg => msg.role === Role.Function && msg.toolCallId)
+        .map(msg => msg.toolCallId as string)
+    );
+    const requestedToolCallIds = new Set<string>();
+
+    const systemParts: GeminiPart[] = [];
+    const contents: GeminiContent[] = [];
+
+    for (const msg of messages) {
       if (msg.role === Role.System) {
-        return {
-          parts: [{ text: msg.content }],
-          role: 'user'
+        systemParts.push({ text: msg.content });
+      } else if (msg.role === Role.Assistant) {
+        const parts: GeminiPart[] = msg.content ? [{ text: msg.content }] : [];
+        for (const call of msg.toolCalls ?? []) {
+          if (!answeredToolCallIds.has(call.id)) continue;
+          requestedToolCallIds.add(call.id);
+          parts.push({ functionCall: { name: call.name, args: call.args } });
+        }
+        if (parts.length > 0) {
+          contents.push({ role: 'model', parts });
+        }
+      } else if (msg.role === Role.Function) {
+        if (!msg.toolCallId || !requestedToolCallIds.has(msg.toolCallId)) continue;
+        const part: GeminiPart = {
+          functionResponse: {
+            name: msg.name || 'function',
+            response: this.toFunctionResponse(msg.content)
+          }
         };
+        // Results of one turn are sent together, as a single content
+        const previous = contents[contents.length - 1];
+        if (previous && previous.parts.every(p => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'user', parts: [part] });
+        }
       } else {
-        return {
-          parts: [{ text: msg.content }],
-          role: msg.role === Role.User ? 'user' : 'model'
-        };
+        contents.push({ role: 'user', parts: [{ text: msg.content }] });
       }
-    });
+    }
 
     const payload: Record<string, unknown> = {
       contents,
@@ -222,6 +128,10 @@ export class GeminiProvider {
       }
     };
 
+    if (systemParts.length > 0) {
+      payload.systemInstruction = { parts: systemParts };
+    }
+
     if (useFunctions) {
       payload.tools = [
         {
@@ -230,17 +140,116 @@ export class GeminiProvider {
       ];
     }
 
+    return payload;
+  }
+
+  private toFunctionResponse(content: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+      return { result: parsed };
+    } catch {
+      return { result: content };
+    }
+  }
+
+  private generateToolCallId(index: number): string {
+    return `call_${Date.now()}_${index}`;
+  }
+
+  async call(
+    messages: ChatMessage[],
+    model: string = DEFAULT_MODEL,
+    useFunctions: boolean = false,
+    additionalFunctions: FunctionDeclaration[] = [],
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const payload = this.buildPayload(messages, useFunctions, additionalFunctions);
+
     const response = await this.client.post<GeminiResponse>(
       this.getEndpoint(model),
-      payload
+      payload,
+      { signal: abortSignal }
+    );
+
+    const parts: Array<{ text?: string; functionCall?: FunctionCallResponse }> = [];
+    let toolIndex = 0;
+    for (const part of response.data.candidates?.[0]?.content?.parts ?? []) {
+      if (part.text) {
+        parts.push({ text: part.text });
+      }
+      if (part.functionCall) {
+        parts.push({
+          functionCall: {
+            id: this.generateToolCallId(toolIndex++),
+            name: part.functionCall.name,
+            args: part.functionCall.args ?? {}
+          }
+        });
+      }
+    }
+
+    return {
+      candidates: [{
+        content: {
+          parts
+        }
+      }]
+    };
+  }
+
+  /**
+   * Stream a completion via streamGenerateContent (SSE).
+   * Gemini sends function calls whole rather than as argument fragments,
+   * so each one is yielded as a single tool_call event with its own index.
+   */
+  async *stream(
+    messages: ChatMessage[],
+    model: string = DEFAULT_MODEL,
+    useFunctions: boolean = false,
+    additionalFunctions: FunctionDeclaration[] = [],
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<LLMStreamEvent> {
+    const payload = this.buildPayload(messages, useFunctions, additionalFunctions);
+
+    const response = await this.client.post<NodeJS.ReadableStream>(
+      this.getEndpoint(model, 'streamGenerateContent'),
+      payload,
+      { signal: abortSignal, responseType: 'stream' }
     );
 
-    return response.data;
+    let toolIndex = 0;
+    for await (const data of readSseData(response.data, 'Gemini')) {
+      const candidate = (data as GeminiResponse | null)?.candidates?.[0];
+      if (!candidate) continue;
+
+      for (const part of candidate.content?.parts ?? []) {
+        if (part.text) {
+          yield { type: 'text', text: part.text };
+        }
+        if (part.functionCall) {
+          const index = toolIndex++;
+          yield {
+            type: 'tool_call',
+            index,
+            id: this.generateToolCallId(index),
+            name: part.functionCall.name,
+            argumentsDelta: JSON.stringify(part.functionCall.args ?? {})
+          };
+        }
+      }
+
+      if (candidate.finishReason) {
+        yield { type: 'done', finishReason: candidate.finishReason };
+      }
+    }
   }
 
   async planFromQuery(
     userQuery: string,
-    model: GeminiModel = GeminiModel.GeminiPro
+    model: string = GeminiModel.GeminiPro
   ): Promise<PlanResult> {
     const payload = {
       contents: [
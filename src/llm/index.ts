@@ -1,2 +1,4 @@
+export * from './provider.js';
+export * from './functions.js';
 export * from './openai.js';
-
+export * from './gemini.js';
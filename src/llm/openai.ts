@@ -1,5 +1,19 @@
 import axios, { AxiosInstance } from 'axios';
 import { ChatMessage, Role } from '../types/message.js';
+import {
+  FunctionCallResponse,
+  FunctionDeclaration,
+  LLMProvider,
+  LLMProviderName,
+  LLMResponse,
+  LLMStreamEvent,
+  PlanResult,
+} from './provider.js';
+import { BACKEND_FUNCTION_DECLARATIONS } from './functions.js';
+import { readSseData } from './sse.js';
+
+export { AvailableFunction, FunctionExecutionLocation } from './provider.js';
+export type { FunctionCallResponse, FunctionDeclaration, Todo, PlanResult } from './provider.js';
 
 export enum OpenAIModel {
   GPT4o = "gpt-4o",
@@ -7,24 +21,6 @@ export enum OpenAIModel {
   GPT35Turbo = "gpt-3.5-turbo",
 }
 
-export enum AvailableFunction {
-  BrowsePublishers = "browsePublishers",
-  GetPublisherDetails = "getPublisherDetails",
-  ViewCart = "viewCart",
-  AddToCart = "addToCart",
-  ProcessPayment = "processPayment",
-}
-
-export enum FunctionExecutionLocation {
-  Backend = "backend",
-  Frontend = "frontend",
-}
-
-export interface FunctionCallResponse {
-  name: string; // Can be AvailableFunction or any frontend function name
-  args: Record<string, unknown>;
-}
-
 export interface OpenAIMessageResponse {
   choices: Array<{
     message: {
@@ -45,28 +41,28 @@ export interface OpenAIMessageResponse {
   }>;
 }
 
-export interface FunctionDeclaration {
-  name: string;
-  description: string;
-  parameters: {
-    type: string;
-    properties: Record<string, unknown>;
-    required: string[];
-  };
-}
-
-export interface Todo {
-  task: string;
-  description: string;
-  dependencies?: string[];
-  estimated_time?: number;
-}
-
-export interface PlanResult {
-  todos: Todo[];
+export interface OpenAIStreamChunk {
+  choices: Array<{
+    delta?: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: string;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
 }
 
-export class OpenAIProvider {
+export class OpenAIProvider implements LLMProvider {
+  readonly name = LLMProviderName.OpenAI;
+  readonly defaultModel: string = OpenAIModel.GPT35Turbo;
   private client: AxiosInstance;
   private apiKey: string;
 
@@ -83,202 +79,24 @@ export class OpenAIProvider {
   }
 
   private createFunctionDeclarations(additionalFunctions: FunctionDeclaration[] = []): FunctionDeclaration[] {
-    const backendFunctions = [
-      {
-        name: AvailableFunction.BrowsePublishers,
-        description: "Browse and search for publishers/websites for backlinking opportunities. Returns data to display in user interface. Use this when user asks to find, search, browse, or show publishers/websites.",
-        parameters: {
-          type: "object",
-          properties: {
-            // Basic filters
-            niche: {
-              type: "string",
-              description: "Filter by niche/category (e.g., Technology, Health, Business, Finance, Travel)"
-            },
-            language: {
-              type: "string",
-              description: "Filter by language (e.g., English, Spanish, French)"
-            },
-            country: {
-              type: "string",
-              description: "Filter by country (e.g., United States, United Kingdom, Canada, India)"
-            },
-            searchQuery: {
-              type: "string",
-              description: "Search query for website names or niches (searches in website names and niche tags)"
-            },
-            
-            // Authority metrics
-            daMin: {
-              type: "number",
-              description: "Minimum Domain Authority (0-100). DA predicts ranking ability."
-            },
-            daMax: {
-              type: "number",
-              description: "Maximum Domain Authority (0-100)"
-            },
-            paMin: {
-              type: "number",
-              description: "Minimum Page Authority (0-100). PA predicts page ranking ability."
-            },
-            paMax: {
-              type: "number",
-              description: "Maximum Page Authority (0-100)"
-            },
-            drMin: {
-              type: "number",
-              description: "Minimum Domain Rating (0-100). DR measures link profile strength."
-            },
-            drMax: {
-              type: "number",
-              description: "Maximum Domain Rating (0-100)"
-            },
-            
-            // Quality filters
-            spamMin: {
-              type: "number",
-              description: "Minimum spam score (0-100). Lower is better quality."
-            },
-            spamMax: {
-              type: "number",
-              description: "Maximum spam score (0-100). Lower is better quality."
-            },
-            
-            // Traffic metrics
-            semrushOverallTrafficMin: {
-              type: "number",
-              description: "Minimum Semrush overall traffic (monthly visits)"
-            },
-            semrushOrganicTrafficMin: {
-              type: "number",
-              description: "Minimum Semrush organic traffic (monthly organic visits)"
-            },
-            
-            // Pricing
-            priceMin: {
-              type: "number",
-              description: "Minimum price in USD for backlink placement"
-            },
-            priceMax: {
-              type: "number",
-              description: "Maximum price in USD for backlink placement"
-            },
-            
-            // Backlink attributes
-            backlinkNature: {
-              type: "string",
-              description: "Type of backlink attribute",
-              enum: ["do-follow", "no-follow"]
-            },
-            
-            // Availability
-            availability: {
-              type: "boolean",
-              description: "Filter by availability status (true = available only)"
-            },
-            
-            // Text search
-            remarkIncludes: {
-              type: "string",
-              description: "Search in website remarks/notes (substring match)"
-            },
-            
-            // Pagination
-            page: {
-              type: "number",
-              description: "Page number for pagination (default: 1)"
-            },
-            limit: {
-              type: "number",
-              description: "Number of results per page (default: 8)"
-            }
-          },
-          required: []
-        }
-      },
-      {
-        name: AvailableFunction.ViewCart,
-        description: "View the current contents of the shopping cart. Use this to show the user their cart and ask if they want to edit or proceed to checkout.",
-        parameters: {
-          type: "object",
-          properties: {},
-          required: []
-        }
-      },
-      {
-        name: AvailableFunction.AddToCart,
-        description: "Add a publisher or product to the shopping cart. Use this when user mentions specific publishers they want to add or says 'add to cart'.",
-        parameters: {
-          type: "object",
-          properties: {
-            type: {
-              type: "string",
-              enum: ["publisher", "product"],
-              description: "Type of item to add"
-            },
-            name: {
-              type: "string",
-              description: "Name of the item"
-            },
-            price: {
-              type: "number",
-              description: "Price of the item in USD"
-            },
-            quantity: {
-              type: "number",
-              description: "Quantity to add (default: 1)"
-            },
-            metadata: {
-              type: "object",
-              description: "Additional metadata about the item (publisherId, website, niche, dr, da)",
-              properties: {
-                publisherId: { type: "string" },
-                website: { type: "string" },
-                niche: { type: "array", items: { type: "string" } },
-                dr: { type: "number" },
-                da: { type: "number" }
-              }
-            }
-          },
-          required: ["type", "name", "price"]
-        }
-      },
-      {
-        name: AvailableFunction.ProcessPayment,
-        description: "Process payment for cart items using Stripe. Use this when user is ready to checkout and says they're done adding items.",
-        parameters: {
-          type: "object",
-          properties: {
-            cartItems: {
-              type: "array",
-              description: "Items in the cart to process payment for",
-              items: {
-                type: "object",
-                properties: {
-                  id: { type: "string" },
-                  name: { type: "string" },
-                  price: { type: "number" },
-                  quantity: { type: "number" }
-                }
-              }
-            }
-          },
-          required: ["cartItems"]
-        }
-      }
-    ];
-
-    return [...backendFunctions, ...additionalFunctions];
+    return [...BACKEND_FUNCTION_DECLARATIONS, ...additionalFunctions];
   }
 
-  // Convert OpenAI response to Gemini-like format for compatibility
-  async call(
+  private buildPayload(
     messages: ChatMessage[],
-    model: OpenAIModel = OpenAIModel.GPT35Turbo,
-    useFunctions: boolean = false,
-    additionalFunctions: FunctionDeclaration[] = [],
-    abortSignal?: AbortSignal
-  ): Promise<{ candidates: Array<{ content: { parts: Array<{ text?: string; functionCall?: FunctionCallResponse }> } }> }> {
+    model: string,
+    useFunctions: boolean,
+    additionalFunctions: FunctionDeclaration[]
+  ): Record<string, unknown> {
+    // tool messages are only valid as answers to a preceding assistant tool_calls entry,
+    // and every tool_calls entry needs an answer - drop anything left unpaired
+    const answeredToolCallIds = new Set(
+      messages
+        .filter(msg => msg.role === Role.Function && msg.toolCallId)
+        .map(msg => msg.toolCallId as string)
+    );
+    const requestedToolCallIds = new Set<string>();
+
     // Convert chat messages to OpenAI format
     const openAIMessages = messages
       .map(msg => {
@@ -295,16 +113,36 @@ export class OpenAIProvider {
             content: msg.content
           };
         } else if (msg.role === Role.Assistant) {
+          const toolCalls = (msg.toolCalls ?? []).filter(call => answeredToolCallIds.has(call.id));
+          if (toolCalls.length === 0) {
+            return {
+              role: 'assistant',
+              content: msg.content
+            };
+          }
+          toolCalls.forEach(call => requestedToolCallIds.add(call.id));
           return {
             role: 'assistant',
-            content: msg.content
+            content: msg.content || null,
+            tool_calls: toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.args)
+              }
+            }))
           };
         } else if (msg.role === Role.Function) {
-          // OpenAI uses tool responses for function results
-          // Since we don't have the actual tool_call_id from the assistant's response,
-          // we skip these messages as they're incompatible with OpenAI's format without proper IDs
-          // They're only added to history for record-keeping
-          return null;
+          // OpenAI uses tool responses for function results, keyed by the assistant's tool_call_id
+          if (!msg.toolCallId || !requestedToolCallIds.has(msg.toolCallId)) {
+            return null;
+          }
+          return {
+            role: 'tool',
+            tool_call_id: msg.toolCallId,
+            content: msg.content
+          };
         }
         // Fallback
         return {
@@ -333,6 +171,18 @@ export class OpenAIProvider {
       }));
     }
 
+    return payload;
+  }
+
+  // Convert OpenAI response to Gemini-like format for compatibility
+  async call(
+    messages: ChatMessage[],
+    model: string = OpenAIModel.GPT35Turbo,
+    useFunctions: boolean = false,
+    additionalFunctions: FunctionDeclaration[] = [],
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const payload = this.buildPayload(messages, model, useFunctions, additionalFunctions);
 
     const response = await this.client.post<OpenAIMessageResponse>(
       '/chat/completions',
@@ -352,6 +202,7 @@ export class OpenAIProvider {
       for (const toolCall of choice.message.tool_calls) {
         parts.push({
           functionCall: {
+            id: toolCall.id,
             name: toolCall.function.name,
             args: JSON.parse(toolCall.function.arguments)
           }
@@ -368,9 +219,55 @@ export class OpenAIProvider {
     };
   }
 
+  /**
+   * Stream a completion using server-sent events (`stream: true`).
+   * Yields text deltas as they arrive and tool call argument fragments keyed
+   * by their index; callers assemble the fragments once the stream is done.
+   * Aborting the signal tears down the underlying HTTP stream.
+   */
+  async *stream(
+    messages: ChatMessage[],
+    model: string = OpenAIModel.GPT35Turbo,
+    useFunctions: boolean = false,
+    additionalFunctions: FunctionDeclaration[] = [],
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<LLMStreamEvent> {
+    const payload = this.buildPayload(messages, model, useFunctions, additionalFunctions);
+    payload.stream = true;
+
+    const response = await this.client.post<NodeJS.ReadableStream>(
+      '/chat/completions',
+      payload,
+      { signal: abortSignal, responseType: 'stream' }
+    );
+
+    for await (const data of readSseData(response.data, 'OpenAI')) {
+      const choice = (data as OpenAIStreamChunk | null)?.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        yield { type: 'text', text: choice.delta.content };
+      }
+
+      for (const toolCall of choice.delta?.tool_calls ?? []) {
+        yield {
+          type: 'tool_call',
+          index: toolCall.index,
+          id: toolCall.id,
+          name: toolCall.function?.name,
+          argumentsDelta: toolCall.function?.arguments ?? ''
+        };
+      }
+
+      if (choice.finish_reason) {
+        yield { type: 'done', finishReason: choice.finish_reason };
+      }
+    }
+  }
+
   async planFromQuery(
     userQuery: string,
-    model: OpenAIModel = OpenAIModel.GPT4o
+    model: string = OpenAIModel.GPT4o
   ): Promise<PlanResult> {
     const payload = {
       model,
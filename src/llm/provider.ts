@@ -0,0 +1,108 @@
+import { ChatMessage } from '../types/message.js';
+
+export enum LLMProviderName {
+  OpenAI = "openai",
+  Gemini = "gemini",
+}
+
+export enum AvailableFunction {
+  BrowsePublishers = "browsePublishers",
+  GetPublisherDetails = "getPublisherDetails",
+  ViewCart = "viewCart",
+  AddToCart = "addToCart",
+  ProcessPayment = "processPayment",
+  GetWeather = "getWeather",
+}
+
+export enum FunctionExecutionLocation {
+  Backend = "backend",
+  Frontend = "frontend",
+}
+
+export interface FunctionCallResponse {
+  id?: string; // Tool call id, assigned by the provider (or generated when it has none)
+  name: string; // Can be AvailableFunction or any frontend function name
+  args: Record<string, unknown>;
+}
+
+export interface FunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: string;
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}
+
+export interface Todo {
+  task: string;
+  description: string;
+  dependencies?: string[];
+  estimated_time?: number;
+}
+
+export interface PlanResult {
+  todos: Todo[];
+}
+
+/**
+ * Provider-neutral completion result (Gemini-like shape, which the orchestrator was built around)
+ */
+export interface LLMResponse {
+  candidates: Array<{
+    content: {
+      parts: Array<{
+        text?: string;
+        functionCall?: FunctionCallResponse;
+      }>;
+    };
+  }>;
+}
+
+/**
+ * Incremental events yielded while streaming a completion.
+ * Tool call arguments may arrive as fragments; events with the same index belong to the same call.
+ */
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: 'done'; finishReason: string };
+
+/**
+ * Which provider and model should answer a chat
+ */
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model: string;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+
+  call(
+    messages: ChatMessage[],
+    model?: string,
+    useFunctions?: boolean,
+    additionalFunctions?: FunctionDeclaration[],
+    abortSignal?: AbortSignal
+  ): Promise<LLMResponse>;
+
+  stream(
+    messages: ChatMessage[],
+    model?: string,
+    useFunctions?: boolean,
+    additionalFunctions?: FunctionDeclaration[],
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<LLMStreamEvent>;
+
+  planFromQuery(userQuery: string, model?: string): Promise<PlanResult>;
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return Object.values(LLMProviderName).includes(value as LLMProviderName);
+}
@@ -0,0 +1,48 @@
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readSseData } from './sse.js';
+
+async function collect(chunks: Array<string | Buffer>): Promise<unknown[]> {
+  const events: unknown[] = [];
+  for await (const data of readSseData(Readable.from(chunks), 'Test')) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe('readSseData', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('yields each data line across chunk boundaries and ignores other lines', async () => {
+    const events = await collect([': keep-alive\n\ndata: {"n"', ':1}\n\nevent: x\ndata: {"n":2}\r\n\r\n']);
+    expect(events).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it('keeps multi-byte characters split between chunks', async () => {
+    const bytes = Buffer.from('data: {"text":"héllo 👋"}\n\n');
+    const accent = bytes.indexOf(Buffer.from('é')) + 1;
+    const emoji = bytes.indexOf(Buffer.from('👋')) + 2;
+    const events = await collect([bytes.subarray(0, accent), bytes.subarray(accent, emoji), bytes.subarray(emoji)]);
+    expect(events).toEqual([{ text: 'héllo 👋' }]);
+  });
+
+  it('skips malformed lines and keeps reading', async () => {
+    const events = await collect(['data: {"n":1}\n\ndata: {"n":\n\ndata: {"n":3}\n\n']);
+    expect(events).toEqual([{ n: 1 }, { n: 3 }]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Test skipped a malformed stream event'));
+  });
+
+  it('reads a last event without a trailing newline', async () => {
+    expect(await collect(['data: {"n":1}\n\n', 'data: {"n":2}'])).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it('stops at [DONE]', async () => {
+    expect(await collect(['data: {"n":1}\n\ndata: [DONE]\n\ndata: {"n":2}\n\n'])).toEqual([{ n: 1 }]);
+  });
+});
@@ -0,0 +1,47 @@
+type SseLine = { done: true } | { done: false; data: unknown } | null;
+
+function parseLine(rawLine: string, source: string): SseLine {
+  const line = rawLine.trim();
+  if (!line.startsWith('data:')) return null;
+
+  const data = line.slice('data:'.length).trim();
+  if (data === '[DONE]') {
+    return { done: true };
+  }
+  try {
+    return { done: false, data: JSON.parse(data) };
+  } catch {
+    console.warn(`[LLM] ${source} skipped a malformed stream event: ${data.length > 200 ? `${data.slice(0, 200)}…` : data}`);
+    return null;
+  }
+}
+
+/**
+ * The JSON payloads of a server-sent event stream's `data:` lines, until `data: [DONE]` or the end.
+ * Chunks are decoded as one UTF-8 stream so characters split between them survive, lines that
+ * aren't valid JSON are logged and skipped, and a last line without a trailing newline is still read.
+ */
+export async function* readSseData(stream: NodeJS.ReadableStream, source: string): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    // SSE events are newline-delimited; keep the trailing partial line for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const parsed = parseLine(line, source);
+      if (parsed?.done) return;
+      if (parsed) yield parsed.data;
+    }
+  }
+
+  buffer += decoder.decode();
+  const parsed = parseLine(buffer, source);
+  if (parsed && !parsed.done) {
+    yield parsed.data;
+  }
+}
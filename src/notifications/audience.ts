@@ -0,0 +1,198 @@
+import type { JwtClaims } from '../auth/jwt.js';
+
+export class AudienceError extends Error {}
+
+export type AttributeValue = string | number | boolean;
+
+export type AttributeOperator = 'eq' | 'neq' | 'in' | 'not_in' | 'exists';
+
+/**
+ * A test on one profile attribute, e.g. { attribute: "plan", op: "in", value: ["pro", "team"] }
+ */
+export interface AttributePredicate {
+  attribute: string;
+  op: AttributeOperator;
+  value?: AttributeValue | AttributeValue[]; // An array for in / not_in, absent for exists
+}
+
+/**
+ * Who a notification is for, instead of isGlobal. Every group that is given must match:
+ * at least one of the roles, at least one of the tags, and all of the attribute predicates.
+ */
+export interface AudienceRules {
+  roles?: string[];
+  tags?: string[];
+  attributes?: AttributePredicate[];
+}
+
+/**
+ * What audience rules are evaluated against. Roles and attributes come from the signed token
+ * (`roles` and `attributes` claims); tags from the token's `tags` claim plus whatever the client
+ * declared when it authenticated, so tags are for segmenting, not for access control.
+ */
+export interface AudienceProfile {
+  userId: string;
+  roles: string[];
+  tags: string[];
+  attributes: Record<string, AttributeValue>;
+}
+
+const OPERATORS: AttributeOperator[] = ['eq', 'neq', 'in', 'not_in', 'exists'];
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 64;
+const MAX_RULE_ENTRIES = 100;
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Tags from a token claim or an authenticate frame: strings only, deduplicated, within limits
+ */
+export function normalizeTags(...sources: unknown[]): string[] {
+  const tags = new Set<string>();
+  for (const source of sources) {
+    for (const tag of stringList(source)) {
+      if (tag && tag.length <= MAX_TAG_LENGTH && tags.size < MAX_TAGS) {
+        tags.add(tag);
+      }
+    }
+  }
+  return [...tags];
+}
+
+/**
+ * Attributes from the token's `attributes` claim; non-scalar values are dropped
+ */
+export function attributesFromClaims(claims: JwtClaims): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {};
+  const claim = claims.attributes;
+  if (claim && typeof claim === 'object' && !Array.isArray(claim)) {
+    for (const [name, value] of Object.entries(claim)) {
+      if (isAttributeValue(value)) {
+        attributes[name] = value;
+      }
+    }
+  }
+  return attributes;
+}
+
+function matchesPredicate(predicate: AttributePredicate, attributes: Record<string, AttributeValue>): boolean {
+  const actual = Object.prototype.hasOwnProperty.call(attributes, predicate.attribute)
+    ? attributes[predicate.attribute]
+    : undefined;
+  const values = Array.isArray(predicate.value) ? predicate.value : [];
+
+  switch (predicate.op) {
+    case 'eq':
+      return actual !== undefined && actual === predicate.value;
+    case 'neq':
+      return actual !== predicate.value;
+    case 'in':
+      return actual !== undefined && values.includes(actual);
+    case 'not_in':
+      return actual === undefined || !values.includes(actual);
+    case 'exists':
+      return actual !== undefined;
+    default:
+      return false; // Unknown operators never match
+  }
+}
+
+export function matchesAudience(rules: AudienceRules, profile: AudienceProfile): boolean {
+  if (Array.isArray(rules.roles) && !rules.roles.some(role => profile.roles.includes(role))) {
+    return false;
+  }
+  if (Array.isArray(rules.tags) && !rules.tags.some(tag => profile.tags.includes(tag))) {
+    return false;
+  }
+  if (Array.isArray(rules.attributes) && !rules.attributes.every(predicate => matchesPredicate(predicate, profile.attributes))) {
+    return false;
+  }
+  return true;
+}
+
+function parseStringGroup(value: unknown, name: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_RULE_ENTRIES ||
+    !value.every(item => typeof item === 'string' && item)
+  ) {
+    throw new AudienceError(`audience.${name} must be a non-empty array of at most ${MAX_RULE_ENTRIES} strings`);
+  }
+  return value;
+}
+
+function parsePredicate(input: unknown, index: number): AttributePredicate {
+  const where = `audience.attributes[${index}]`;
+  if (!input || typeof input !== 'object') {
+    throw new AudienceError(`${where} must be an object`);
+  }
+
+  const { attribute, op, value } = input as Record<string, unknown>;
+  if (typeof attribute !== 'string' || !attribute) {
+    throw new AudienceError(`${where}.attribute is required`);
+  }
+  if (!OPERATORS.includes(op as AttributeOperator)) {
+    throw new AudienceError(`${where}.op must be one of ${OPERATORS.join(', ')}`);
+  }
+
+  if (op === 'exists') {
+    return { attribute, op };
+  }
+  if (op === 'in' || op === 'not_in') {
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_RULE_ENTRIES || !value.every(isAttributeValue)) {
+      throw new AudienceError(`${where}.value must be a non-empty array of strings, numbers or booleans`);
+    }
+    return { attribute, op, value };
+  }
+  if (!isAttributeValue(value)) {
+    throw new AudienceError(`${where}.value must be a string, number or boolean`);
+  }
+  return { attribute, op: op as AttributeOperator, value };
+}
+
+/**
+ * Throws AudienceError when a notification submitted for broadcast has malformed audience rules
+ */
+export function validateNotificationAudience(notification: { audience?: unknown }): void {
+  if (notification.audience !== undefined) {
+    parseAudience(notification.audience);
+  }
+}
+
+/**
+ * Validate a notification's audience rules. Throws AudienceError when they're malformed.
+ */
+export function parseAudience(input: unknown): AudienceRules {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AudienceError('audience must be an object');
+  }
+
+  const { roles, tags, attributes } = input as Record<string, unknown>;
+  const rules: AudienceRules = {};
+
+  const parsedRoles = parseStringGroup(roles, 'roles');
+  if (parsedRoles) rules.roles = parsedRoles;
+
+  const parsedTags = parseStringGroup(tags, 'tags');
+  if (parsedTags) rules.tags = parsedTags;
+
+  if (attributes !== undefined) {
+    if (!Array.isArray(attributes) || attributes.length === 0 || attributes.length > MAX_RULE_ENTRIES) {
+      throw new AudienceError(`audience.attributes must be a non-empty array of at most ${MAX_RULE_ENTRIES} predicates`);
+    }
+    rules.attributes = attributes.map(parsePredicate);
+  }
+
+  if (!rules.roles && !rules.tags && !rules.attributes) {
+    throw new AudienceError('audience needs roles, tags or attributes');
+  }
+  return rules;
+}
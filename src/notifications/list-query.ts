@@ -0,0 +1,52 @@
+import { NOTIFICATION_PRIORITIES, NotificationPriority } from './types.js';
+import type { NotificationListQuery } from '../storage/notification-store.js';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export class NotificationQueryError extends Error {}
+
+function readInteger(value: unknown, name: string, fallback: number, min: number, max: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new NotificationQueryError(`${name} must be an integer from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Build a history query from query-string values or a socket frame's fields
+ */
+export function parseNotificationListQuery(input: Record<string, unknown>): NotificationListQuery {
+  const query: NotificationListQuery = {
+    offset: readInteger(input.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+    limit: readInteger(input.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT),
+  };
+
+  if (input.type !== undefined && input.type !== '') {
+    if (typeof input.type !== 'string') {
+      throw new NotificationQueryError('type must be a string');
+    }
+    query.type = input.type;
+  }
+
+  if (input.priority !== undefined && input.priority !== '') {
+    if (!NOTIFICATION_PRIORITIES.includes(input.priority as NotificationPriority)) {
+      throw new NotificationQueryError(`priority must be one of ${NOTIFICATION_PRIORITIES.join(', ')}`);
+    }
+    query.priority = input.priority as NotificationPriority;
+  }
+
+  if (input.read !== undefined && input.read !== '') {
+    if (input.read === true || input.read === 'true') {
+      query.read = true;
+    } else if (input.read === false || input.read === 'false') {
+      query.read = false;
+    } else {
+      throw new NotificationQueryError('read must be true or false');
+    }
+  }
+
+  return query;
+}
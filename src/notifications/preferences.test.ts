@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allowsNotification,
+  DEFAULT_PREFERENCES,
+  isQuietTime,
+  NotificationPreferences,
+  parsePreferences,
+  PreferencesError,
+  QuietHours,
+} from './preferences.js';
+import { NotificationData, NotificationPriority } from './types.js';
+
+// 21:30 UTC: 22:30 in Berlin (CET), 16:30 in New York (EST), 03:00 the next day in Kolkata (IST)
+const WINTER_EVENING = Date.parse('2026-01-15T21:30:00Z');
+
+const overnight = (timeZone: string): QuietHours => ({ start: '22:00', end: '07:00', timeZone });
+
+function notification(priority: NotificationPriority, typeId = 'promo'): NotificationData {
+  return {
+    id: 'n1',
+    title: 'Hello',
+    body: '',
+    typeId,
+    isActive: true,
+    isGlobal: true,
+    targetUserIds: [],
+    priority,
+    createdAt: '2026-01-15T00:00:00Z',
+    updatedAt: '2026-01-15T00:00:00Z',
+    type: { id: typeId, name: typeId, displayName: typeId },
+  };
+}
+
+function preferences(overrides: Partial<NotificationPreferences>): NotificationPreferences {
+  return { ...DEFAULT_PREFERENCES, ...overrides };
+}
+
+describe('isQuietTime', () => {
+  it.each([
+    ['Europe/Berlin', true],
+    ['America/New_York', false],
+    ['Asia/Kolkata', true],
+    ['UTC', false],
+  ])('reads the clock in %s', (timeZone, quiet) => {
+    expect(isQuietTime(overnight(timeZone), WINTER_EVENING)).toBe(quiet);
+  });
+
+  it('follows daylight saving time', () => {
+    // 20:30 UTC is 22:30 in Berlin in summer (CEST) but 21:30 in winter (CET)
+    expect(isQuietTime(overnight('Europe/Berlin'), Date.parse('2026-07-15T20:30:00Z'))).toBe(true);
+    expect(isQuietTime(overnight('Europe/Berlin'), Date.parse('2026-01-15T20:30:00Z'))).toBe(false);
+  });
+
+  it('includes the start and excludes the end of a window over midnight', () => {
+    const quietHours = overnight('UTC');
+    expect(isQuietTime(quietHours, Date.parse('2026-01-15T21:59:00Z'))).toBe(false);
+    expect(isQuietTime(quietHours, Date.parse('2026-01-15T22:00:00Z'))).toBe(true);
+    expect(isQuietTime(quietHours, Date.parse('2026-01-16T03:00:00Z'))).toBe(true);
+    expect(isQuietTime(quietHours, Date.parse('2026-01-16T06:59:00Z'))).toBe(true);
+    expect(isQuietTime(quietHours, Date.parse('2026-01-16T07:00:00Z'))).toBe(false);
+  });
+
+  it('handles a window within one day', () => {
+    const workday: QuietHours = { start: '09:00', end: '17:00', timeZone: 'America/New_York' };
+    expect(isQuietTime(workday, WINTER_EVENING)).toBe(true);
+    expect(isQuietTime(workday, Date.parse('2026-01-15T22:00:00Z'))).toBe(false);
+  });
+});
+
+describe('allowsNotification', () => {
+  it('allows everything with the defaults', () => {
+    expect(allowsNotification(DEFAULT_PREFERENCES, notification('LOW'), WINTER_EVENING)).toBe(true);
+  });
+
+  it('holds back non-urgent notifications during quiet hours in the user\'s time zone', () => {
+    const berlin = preferences({ quietHours: overnight('Europe/Berlin') });
+    const newYork = preferences({ quietHours: overnight('America/New_York') });
+
+    expect(allowsNotification(berlin, notification('HIGH'), WINTER_EVENING)).toBe(false);
+    expect(allowsNotification(newYork, notification('HIGH'), WINTER_EVENING)).toBe(true);
+  });
+
+  it('lets URGENT notifications through quiet hours', () => {
+    const berlin = preferences({ quietHours: overnight('Europe/Berlin') });
+    expect(allowsNotification(berlin, notification('URGENT'), WINTER_EVENING)).toBe(true);
+  });
+
+  it('blocks muted types even when URGENT', () => {
+    const muted = preferences({ mutedTypeIds: ['promo'] });
+    expect(allowsNotification(muted, notification('URGENT', 'promo'), WINTER_EVENING)).toBe(false);
+    expect(allowsNotification(muted, notification('LOW', 'billing'), WINTER_EVENING)).toBe(true);
+  });
+
+  it('blocks priorities below minPriority', () => {
+    const high = preferences({ minPriority: 'HIGH' });
+    expect(allowsNotification(high, notification('NORMAL'), WINTER_EVENING)).toBe(false);
+    expect(allowsNotification(high, notification('HIGH'), WINTER_EVENING)).toBe(true);
+    expect(allowsNotification(high, notification('URGENT'), WINTER_EVENING)).toBe(true);
+  });
+});
+
+describe('parsePreferences', () => {
+  it('fills in defaults for fields left out', () => {
+    expect(parsePreferences({ minPriority: 'NORMAL' })).toEqual({ ...DEFAULT_PREFERENCES, minPriority: 'NORMAL' });
+  });
+
+  it.each([
+    ['an unknown time zone', { quietHours: { start: '22:00', end: '07:00', timeZone: 'Mars/Olympus' } }],
+    ['a malformed time', { quietHours: { start: '7:00', end: '22:00', timeZone: 'UTC' } }],
+    ['an empty window', { quietHours: { start: '22:00', end: '22:00', timeZone: 'UTC' } }],
+    ['an unknown priority', { minPriority: 'CRITICAL' }],
+  ])('rejects %s', (_label, input) => {
+    expect(() => parsePreferences(input)).toThrow(PreferencesError);
+  });
+});
@@ -0,0 +1,139 @@
+import { NOTIFICATION_PRIORITIES, NotificationData, NotificationPriority } from './types.js';
+
+export class PreferencesError extends Error {}
+
+/**
+ * Window in which only URGENT notifications are pushed. Times are "HH:MM" in timeZone;
+ * a window whose end is before its start runs over midnight.
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+  timeZone: string; // IANA name, e.g. "Europe/Berlin"
+}
+
+/**
+ * What a user wants pushed to them. Notifications that don't pass are still stored and listed.
+ */
+export interface NotificationPreferences {
+  mutedTypeIds: string[]; // Matches type.id (or typeId)
+  minPriority: NotificationPriority;
+  quietHours: QuietHours | null;
+}
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  mutedTypeIds: [],
+  minPriority: 'LOW',
+  quietHours: null,
+};
+
+const MAX_MUTED_TYPES = 200;
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls in the quiet hours, in their time zone
+ */
+export function isQuietTime(quietHours: QuietHours, now: number = Date.now()): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quietHours.timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value ?? '0', 10);
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value ?? '0', 10);
+  const current = hour * 60 + minute;
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Whether preferences let the notification be pushed. URGENT notifications ignore quiet hours,
+ * but not muted types.
+ */
+export function allowsNotification(
+  preferences: NotificationPreferences,
+  notification: NotificationData,
+  now: number = Date.now()
+): boolean {
+  const typeId = notification.type?.id ?? notification.typeId;
+  if (typeId && preferences.mutedTypeIds.includes(typeId)) {
+    return false;
+  }
+
+  const priority = NOTIFICATION_PRIORITIES.indexOf(notification.priority);
+  if (priority !== -1 && priority < NOTIFICATION_PRIORITIES.indexOf(preferences.minPriority)) {
+    return false;
+  }
+
+  if (preferences.quietHours && notification.priority !== 'URGENT' && isQuietTime(preferences.quietHours, now)) {
+    return false;
+  }
+
+  return true;
+}
+
+function parseQuietHours(input: unknown): QuietHours | null {
+  if (input === null || input === undefined) return null;
+  if (typeof input !== 'object') {
+    throw new PreferencesError('quietHours must be an object or null');
+  }
+
+  const { start, end, timeZone } = input as Record<string, unknown>;
+  for (const [name, value] of [['start', start], ['end', end]] as const) {
+    if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+      throw new PreferencesError(`quietHours.${name} must be a time as HH:MM`);
+    }
+  }
+  if (start === end) {
+    throw new PreferencesError('quietHours.start and quietHours.end must differ');
+  }
+  if (typeof timeZone !== 'string' || !timeZone) {
+    throw new PreferencesError('quietHours.timeZone is required');
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new PreferencesError(`Unknown time zone: ${timeZone}`);
+  }
+
+  return { start: start as string, end: end as string, timeZone };
+}
+
+/**
+ * Validate a full preferences document (fields left out get their defaults)
+ */
+export function parsePreferences(input: unknown): NotificationPreferences {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new PreferencesError('Preferences must be an object');
+  }
+  const { mutedTypeIds, minPriority, quietHours } = input as Record<string, unknown>;
+
+  const preferences: NotificationPreferences = { ...DEFAULT_PREFERENCES, quietHours: parseQuietHours(quietHours) };
+
+  if (mutedTypeIds !== undefined) {
+    if (
+      !Array.isArray(mutedTypeIds) ||
+      mutedTypeIds.length > MAX_MUTED_TYPES ||
+      !mutedTypeIds.every(id => typeof id === 'string' && id)
+    ) {
+      throw new PreferencesError(`mutedTypeIds must be an array of at most ${MAX_MUTED_TYPES} type ids`);
+    }
+    preferences.mutedTypeIds = [...new Set(mutedTypeIds as string[])];
+  }
+
+  if (minPriority !== undefined) {
+    if (!NOTIFICATION_PRIORITIES.includes(minPriority as NotificationPriority)) {
+      throw new PreferencesError(`minPriority must be one of ${NOTIFICATION_PRIORITIES.join(', ')}`);
+    }
+    preferences.minPriority = minPriority as NotificationPriority;
+  }
+
+  return preferences;
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { NotificationData } from './types.js';
+import { CronError, nextCronTime, parseCron } from './cron.js';
+import { AudienceError, validateNotificationAudience } from './audience.js';
+import type { ScheduledNotification, ScheduleStore } from '../storage/schedule-store.js';
+
+export class ScheduleError extends Error {}
+
+export interface ScheduleRequest {
+  notification: NotificationData;
+  sendAt?: unknown; // ISO 8601 time in the future
+  cron?: unknown; // Five-field cron expression (UTC)
+  createdBy: string;
+}
+
+// Due schedules handled per poll
+const MAX_DUE_PER_TICK = 100;
+
+/**
+ * Whether a broadcast request (HTTP body or socket frame) asks for a schedule instead of sending now
+ */
+export function isScheduleRequest(body: { sendAt?: unknown; cron?: unknown }): boolean {
+  return body.sendAt !== undefined || body.cron !== undefined;
+}
+
+/**
+ * Holds notifications until their sendAt and hands them to dispatch. Recurring schedules move on
+ * to their next cron time after each run; runs missed while the server was down are sent once.
+ */
+export class NotificationScheduler {
+  private store: ScheduleStore;
+  private dispatch: (notification: NotificationData) => Promise<void>;
+  private timer: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    store: ScheduleStore,
+    dispatch: (notification: NotificationData) => Promise<void>,
+    pollIntervalMs: number = 1000
+  ) {
+    this.store = store;
+    this.dispatch = dispatch;
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Validate and store a schedule. Throws ScheduleError for bad input.
+   */
+  async schedule(request: ScheduleRequest): Promise<ScheduledNotification> {
+    const { notification, sendAt, cron, createdBy } = request;
+    if (!notification || typeof notification.id !== 'string' || !notification.id) {
+      throw new ScheduleError('Notification data with an id is required');
+    }
+    try {
+      validateNotificationAudience(notification);
+    } catch (error) {
+      if (error instanceof AudienceError) throw new ScheduleError(error.message);
+      throw error;
+    }
+    if (sendAt !== undefined && cron !== undefined) {
+      throw new ScheduleError('Use either sendAt or cron, not both');
+    }
+
+    const now = Date.now();
+    let firstRun: number;
+    if (cron !== undefined) {
+      if (typeof cron !== 'string') {
+        throw new ScheduleError('cron must be a string');
+      }
+      let next: number | null;
+      try {
+        next = nextCronTime(parseCron(cron), now);
+      } catch (error) {
+        if (error instanceof CronError) throw new ScheduleError(error.message);
+        throw error;
+      }
+      if (next === null) {
+        throw new ScheduleError(`cron "${cron}" never fires`);
+      }
+      firstRun = next;
+    } else {
+      const time = typeof sendAt === 'string' ? Date.parse(sendAt) : NaN;
+      if (Number.isNaN(time)) {
+        throw new ScheduleError('sendAt must be an ISO 8601 time');
+      }
+      if (time <= now) {
+        throw new ScheduleError('sendAt must be in the future');
+      }
+      firstRun = time;
+    }
+
+    const schedule: ScheduledNotification = {
+      id: `sched_${randomUUID()}`,
+      notification,
+      sendAt: firstRun,
+      cron: cron as string | undefined,
+      createdBy,
+      createdAt: now,
+    };
+    await this.store.save(schedule);
+    console.log(
+      `[Scheduler] ${schedule.id} scheduled notificationId=${notification.id} ` +
+      `sendAt=${new Date(firstRun).toISOString()}${schedule.cron ? ` cron="${schedule.cron}"` : ''} by ${createdBy}`
+    );
+    return schedule;
+  }
+
+  list(): Promise<ScheduledNotification[]> {
+    return this.store.list();
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    const cancelled = await this.store.delete(id);
+    if (cancelled) {
+      console.log(`[Scheduler] ${id} cancelled`);
+    }
+    return cancelled;
+  }
+
+  stop() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Send whatever is due. A run is only sent by the replica whose advance() wins.
+   */
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = Date.now();
+      for (const schedule of await this.store.listDue(now, MAX_DUE_PER_TICK)) {
+        const next = schedule.cron ? this.nextRun(schedule, Math.max(now, schedule.sendAt)) : null;
+        if (!(await this.store.advance(schedule.id, schedule.sendAt, next))) {
+          continue;
+        }
+
+        // Each run of a recurring schedule is its own notification, with its own receipts
+        const notification: NotificationData = schedule.cron
+          ? {
+              ...schedule.notification,
+              id: `${schedule.notification.id}:${schedule.sendAt}`,
+              createdAt: new Date(now).toISOString(),
+              updatedAt: new Date(now).toISOString(),
+            }
+          : schedule.notification;
+
+        try {
+          await this.dispatch(notification);
+          console.log(`[Scheduler] ${schedule.id} sent notificationId=${notification.id}`);
+        } catch (error) {
+          console.error(`[Scheduler] ${schedule.id} failed to send notificationId=${notification.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Scheduler] Failed to check due schedules:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private nextRun(schedule: ScheduledNotification, after: number): number | null {
+    try {
+      return nextCronTime(parseCron(schedule.cron!), after);
+    } catch (error) {
+      console.error(`[Scheduler] ${schedule.id} has an invalid cron "${schedule.cron}", dropping it:`, error);
+      return null;
+    }
+  }
+}
@@ -1,31 +1,144 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { IncomingMessage, Server as HTTPServer } from 'http';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 import { NotificationData, NotificationMessage, ClientConnection } from './types.js';
+import type { Backplane } from '../backplane/backplane.js';
+import { JwtError, JwtVerifyOptions, verifyJwt } from '../auth/jwt.js';
+import {
+  InMemoryNotificationStore,
+  isAddressedTo,
+  isNotificationLive,
+  NotificationListQuery,
+  NotificationPage,
+  NotificationReceiptKind,
+  NotificationStore,
+} from '../storage/notification-store.js';
+import { InMemoryScheduleStore, ScheduledNotification, ScheduleStore } from '../storage/schedule-store.js';
+import { InMemoryPreferenceStore, PreferenceStore } from '../storage/preference-store.js';
+import { NotificationQueryError, parseNotificationListQuery } from './list-query.js';
+import { isScheduleRequest, NotificationScheduler, ScheduleError, ScheduleRequest } from './scheduler.js';
+import { allowsNotification, DEFAULT_PREFERENCES, isQuietTime, NotificationPreferences } from './preferences.js';
+import {
+  attributesFromClaims,
+  AudienceProfile,
+  normalizeTags,
+} from './audience.js';
+import { NotificationDataError, validateNotificationData } from './validation.js';
+
+export interface NotificationAuthOptions extends JwtVerifyOptions {
+  jwtSecret: string; // Same tokens as the chat socket; `roles` claim decides admin
+  authTimeoutMs?: number; // How long a connection may stay unauthenticated (default: 10s)
+  adminRole?: string; // Default: "admin"
+}
+
+export interface NotificationUser extends AudienceProfile {
+  isAdmin: boolean;
+}
+
+export interface NotificationServerOptions {
+  auth: NotificationAuthOptions;
+  store?: NotificationStore; // Default: in-memory
+  maxMissedOnConnect?: number; // Missed notifications sent after authenticate (default: 100)
+  scheduleStore?: ScheduleStore; // Default: in-memory
+  schedulePollMs?: number; // How often due schedules are checked (default: 1s)
+  preferenceStore?: PreferenceStore; // Default: in-memory
+}
+
+// Backplane channels
+const NOTIFICATIONS_CHANNEL = 'notifications.broadcast';
+const ADMIN_MESSAGES_CHANNEL = 'notifications.admins';
+const PREFERENCES_CHANNEL = 'notifications.preferences';
+
+// Close code for connections that fail or skip authentication
+const CLOSE_UNAUTHORIZED = 4401;
+
+// Quiet hours are set to the minute
+const QUIET_HOURS_CHECK_MS = 60 * 1000;
 
 export class NotificationWebSocketServer {
   public wss: WebSocketServer | null = null;
   private clients: Map<string, ClientConnection> = new Map();
   private adminClients: Set<string> = new Set();
+  private backplane: Backplane | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private auth: NotificationAuthOptions;
+  private store: NotificationStore;
+  private maxMissedOnConnect: number;
+  private scheduler: NotificationScheduler;
+  private preferenceStore: PreferenceStore;
+  private quietHoursTimer: NodeJS.Timeout;
+
+  constructor(options: NotificationServerOptions) {
+    this.auth = options.auth;
+    this.store = options.store ?? new InMemoryNotificationStore();
+    this.maxMissedOnConnect = options.maxMissedOnConnect ?? 100;
+    this.preferenceStore = options.preferenceStore ?? new InMemoryPreferenceStore();
+    this.scheduler = new NotificationScheduler(
+      options.scheduleStore ?? new InMemoryScheduleStore(),
+      notification => this.broadcastNotification(notification),
+      options.schedulePollMs
+    );
+    this.quietHoursTimer = setInterval(() => this.checkQuietHours(), QUIET_HOURS_CHECK_MS);
+    this.quietHoursTimer.unref();
+  }
+
+  /**
+   * Fan notifications out to the clients of other replicas as well
+   */
+  public useBackplane(backplane: Backplane) {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.backplane = backplane;
+    this.unsubscribers = [
+      backplane.subscribe(NOTIFICATIONS_CHANNEL, message => {
+        void this.storeAndDeliver(message as NotificationData);
+      }),
+      backplane.subscribe(ADMIN_MESSAGES_CHANNEL, message => this.deliverToAdmins(message)),
+      backplane.subscribe(PREFERENCES_CHANNEL, message => {
+        const { userId, preferences } = message as { userId: string; preferences: NotificationPreferences };
+        this.applyPreferences(userId, preferences);
+      }),
+    ];
+  }
+
+  public close() {
+    this.scheduler.stop();
+    clearInterval(this.quietHoursTimer);
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    for (const clientId of Array.from(this.clients.keys())) {
+      this.clients.get(clientId)?.ws.terminate();
+      this.removeClient(clientId);
+    }
+    this.wss?.close();
+  }
 
   public createStandaloneWebSocketServer(port: number) {
     this.wss = new WebSocketServer({ port });
     this.setupConnectionHandlers();
   }
 
-  public createWebSocketServer(server: HTTPServer) {
+  /**
+   * Shared-server mode - the HTTP server routes upgrades for /api/notifications/ws here via handleUpgrade
+   */
+  public createNoServerWebSocketServer() {
     // Prevent duplicate server creation
     if (this.wss) {
       return;
     }
-    
-    this.wss = new WebSocketServer({ 
-      server,
-      path: '/api/notifications/ws'
-    });
 
+    this.wss = new WebSocketServer({ noServer: true });
     this.setupConnectionHandlers();
   }
 
+  public handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+    const wss = this.wss;
+    if (!wss) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(request, socket, head, (ws) => wss.emit('connection', ws, request));
+  }
+
   private setupConnectionHandlers() {
     if (!this.wss) {
       throw new Error('WebSocket server not initialized');
@@ -33,7 +146,8 @@ export class NotificationWebSocketServer {
 
     this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
       const clientId = this.generateClientId();
-      this.clients.set(clientId, { ws });
+      const client: ClientConnection = { ws };
+      this.clients.set(clientId, client);
 
       ws.on('message', (message: Buffer) => {
         try {
@@ -47,19 +161,18 @@ export class NotificationWebSocketServer {
       ws.on('close', (code: number, reason: Buffer) => {
         // Only log actual errors, not normal closures
         // 1000 = Normal Closure, 1001 = Going Away, 1005 = No Status Received are all normal
+        // 4401 is our own rejection of an unauthenticated client, already logged
         // Everything else should be logged as an error
-        const isNormalClosure = code === 1000 || code === 1001 || code === 1005;
+        const isNormalClosure = code === 1000 || code === 1001 || code === 1005 || code === CLOSE_UNAUTHORIZED;
         if (!isNormalClosure && code !== 0) {
           console.error(`❌ [Notification] WebSocket closed unexpectedly (code: ${code} - ${this.getCloseCodeMeaning(code)})`);
         }
-        this.clients.delete(clientId);
-        this.adminClients.delete(clientId);
+        this.removeClient(clientId);
       });
 
       ws.on('error', (error) => {
         console.error(`❌ [Notification] WebSocket error:`, error instanceof Error ? error.message : error);
-        this.clients.delete(clientId);
-        this.adminClients.delete(clientId);
+        this.removeClient(clientId);
       });
 
       // Send connection confirmation
@@ -69,9 +182,40 @@ export class NotificationWebSocketServer {
       }, clientId)) {
         console.error(`❌ [Notification] Failed to send connection confirmation`);
       }
+
+      // Token in the URL (?token=...&tags=a,b) authenticates right away; otherwise wait for an authenticate frame
+      const params = new URL(request.url || '/', 'http://localhost').searchParams;
+      const token = params.get('token');
+      if (token) {
+        void this.authenticateClient(clientId, token, params.get('tags')?.split(','));
+      } else {
+        client.authTimer = setTimeout(
+          () => this.rejectClient(clientId, 'Authentication timeout'),
+          this.auth.authTimeoutMs ?? 10000
+        );
+      }
     });
   }
 
+  private removeClient(clientId: string) {
+    const client = this.clients.get(clientId);
+    if (client) {
+      clearTimeout(client.authTimer);
+    }
+    this.clients.delete(clientId);
+    this.adminClients.delete(clientId);
+  }
+
+  private rejectClient(clientId: string, reason: string) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    console.warn(`[Notification] Rejecting client ${clientId}: ${reason}`);
+    this.sendSafe(client.ws, { type: 'error', message: reason }, clientId);
+    client.ws.close(CLOSE_UNAUTHORIZED, reason);
+    this.removeClient(clientId);
+  }
+
   private generateClientId(): string {
     return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   }
@@ -85,28 +229,53 @@ export class NotificationWebSocketServer {
 
     switch (data.type) {
       case 'authenticate':
-        this.authenticateClient(clientId, data.userId, data.isAdmin);
+        if (typeof data.token !== 'string' || !data.token) {
+          this.rejectClient(clientId, 'authenticate requires a token');
+          break;
+        }
+        void this.authenticateClient(clientId, data.token, data.tags);
         break;
       case 'ping':
         this.sendSafe(client.ws, { type: 'pong' }, clientId);
         break;
       case 'broadcast':
-        if (client.isAdmin) {
-          if (data.notification) {
-            this.broadcastNotification(data.notification);
+        if (!client.userId) {
+          console.warn(`[Notification] Unauthenticated client ${clientId} attempted to broadcast`);
+          this.sendSafe(client.ws, {
+            type: 'error',
+            message: 'Authentication required'
+          }, clientId);
+        } else if (client.isAdmin) {
+          if (!data.notification) {
+            console.error(`❌ [Notification] Broadcast message missing notification data`);
+            this.sendSafe(client.ws, {
+              type: 'error',
+              message: 'Broadcast message missing notification data'
+            }, clientId);
+            break;
+          }
+
+          // Same checks as POST /api/broadcast
+          let notification: NotificationData;
+          try {
+            notification = validateNotificationData(data.notification);
+          } catch (error) {
+            if (!(error instanceof NotificationDataError)) throw error;
+            this.sendSafe(client.ws, { type: 'error', message: error.message }, clientId);
+            break;
+          }
+
+          if (isScheduleRequest(data)) {
+            this.scheduleFromClient(clientId, data);
+          } else {
+            void this.broadcastNotification(notification);
             setTimeout(() => {
               this.sendSafe(client.ws, {
                 type: 'broadcast-complete',
-                notificationId: data.notification.id,
+                notificationId: notification.id,
                 timestamp: new Date().toISOString()
               }, clientId);
             }, 10);
-          } else {
-            console.error(`❌ [Notification] Broadcast message missing notification data`);
-            this.sendSafe(client.ws, {
-              type: 'error',
-              message: 'Broadcast message missing notification data'
-            }, clientId);
           }
         } else {
           console.error(`❌ [Notification] Non-admin client attempted to broadcast`);
@@ -116,38 +285,345 @@ export class NotificationWebSocketServer {
           }, clientId);
         }
         break;
+      case 'list':
+      case 'unread-count':
+      case 'mark-all-read':
+        this.handleHistoryRequest(clientId, data).catch(error => {
+          console.error(`❌ [Notification] Failed to handle ${data.type}:`, error);
+          this.sendSafe(client.ws, { type: 'error', message: `Failed to handle ${data.type}`, requestId: data.requestId }, clientId);
+        });
+        break;
+      case 'read':
+      case 'dismiss':
+        this.recordReceipt(clientId, data.notificationId, data.type === 'read' ? 'read' : 'dismissed').catch(error => {
+          console.error(`❌ [Notification] Failed to record ${data.type} receipt:`, error);
+          this.sendSafe(client.ws, { type: 'error', message: `Failed to record ${data.type}` }, clientId);
+        });
+        break;
       default:
         // Silently ignore unknown message types
         break;
     }
   }
 
-  private authenticateClient(clientId: string, userId: string, isAdmin: boolean) {
+  /**
+   * An admin's `broadcast` frame with sendAt or cron
+   */
+  private scheduleFromClient(clientId: string, data: any) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    this.scheduler
+      .schedule({ notification: data.notification, sendAt: data.sendAt, cron: data.cron, createdBy: `user:${client.userId}` })
+      .then(schedule => {
+        this.sendSafe(client.ws, { type: 'broadcast-scheduled', schedule }, clientId);
+      })
+      .catch(error => {
+        if (!(error instanceof ScheduleError)) {
+          console.error(`❌ [Notification] Failed to schedule notification:`, error);
+        }
+        const message = error instanceof ScheduleError ? error.message : 'Failed to schedule notification';
+        this.sendSafe(client.ws, { type: 'error', message }, clientId);
+      });
+  }
+
+  /**
+   * History frames: list, unread-count and mark-all-read. Replies echo the frame's requestId.
+   */
+  private async handleHistoryRequest(clientId: string, data: any) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const { requestId } = data;
+    if (!client.userId) {
+      this.sendSafe(client.ws, { type: 'error', message: 'Authentication required', requestId }, clientId);
+      return;
+    }
+
+    if (data.type === 'list') {
+      let query: NotificationListQuery;
+      try {
+        query = parseNotificationListQuery(data.query && typeof data.query === 'object' ? data.query : {});
+      } catch (error) {
+        if (!(error instanceof NotificationQueryError)) throw error;
+        this.sendSafe(client.ws, { type: 'error', message: error.message, requestId }, clientId);
+        return;
+      }
+      const page = await this.store.listForUser(this.profileOf(client), query);
+      this.sendSafe(client.ws, { type: 'notification-list', requestId, ...page }, clientId);
+    } else if (data.type === 'unread-count') {
+      const count = await this.store.countUnread(this.profileOf(client));
+      this.sendSafe(client.ws, { type: 'unread-count', requestId, count }, clientId);
+    } else {
+      const marked = await this.markAllRead(this.profileOf(client));
+      this.sendSafe(client.ws, { type: 'marked-all-read', requestId, count: marked }, clientId);
+    }
+  }
+
+  /**
+   * Record that the client's user read or dismissed a notification addressed to them
+   */
+  private async recordReceipt(clientId: string, notificationId: unknown, kind: NotificationReceiptKind) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    if (!client.userId) {
+      this.sendSafe(client.ws, { type: 'error', message: 'Authentication required' }, clientId);
+      return;
+    }
+    if (typeof notificationId !== 'string' || !notificationId) {
+      this.sendSafe(client.ws, { type: 'error', message: 'notificationId is required' }, clientId);
+      return;
+    }
+
+    const notification = await this.store.get(notificationId);
+    if (!notification || !isAddressedTo(notification, this.profileOf(client))) {
+      this.sendSafe(client.ws, { type: 'error', message: 'Unknown notification', notificationId }, clientId);
+      return;
+    }
+
+    await this.store.recordReceipt(client.userId, notificationId, kind);
+    this.sendSafe(client.ws, { type: 'receipt-recorded', notificationId, receipt: kind }, clientId);
+  }
+
+  /**
+   * Send a newly authenticated client the notifications its user hasn't received yet
+   */
+  private async deliverMissed(clientId: string, profile: AudienceProfile) {
+    const { userId } = profile;
+    let client = this.clients.get(clientId);
+    if (!client || client.userId !== userId) return;
+
+    // Ones held back by preferences stay undelivered for a later connection (or the end of quiet hours)
+    const clientPreferences = client.preferences ?? DEFAULT_PREFERENCES;
+    const allowed = await this.store.listUndelivered(
+      profile,
+      this.maxMissedOnConnect,
+      notification => allowsNotification(clientPreferences, notification)
+    );
+    client = this.clients.get(clientId);
+    if (!client || client.userId !== userId) return;
+    for (const notification of allowed) {
+      const message: NotificationMessage = { type: 'notification', data: notification, missed: true };
+      if (!this.sendSafe(client.ws, message, clientId)) return;
+      await this.store.recordReceipt(userId, notification.id, 'delivered');
+    }
+    if (allowed.length > 0) {
+      console.log(`[Notification] Delivered ${allowed.length} missed notifications to userId=${userId}`);
+    }
+  }
+
+  /**
+   * Verify the client's token; its subject, roles and attributes replace anything the client claimed.
+   * Tags the client declares are added to the token's. An invalid token closes the connection.
+   * The user's preferences are loaded first, so they apply to the first live notification.
+   */
+  private async authenticateClient(clientId: string, token: string, declaredTags?: unknown) {
     const client = this.clients.get(clientId);
     if (!client) {
       console.error(`❌ [Notification] Client not found for authentication`);
       return;
     }
 
+    let user: NotificationUser;
+    try {
+      user = this.verifyToken(token);
+    } catch (error) {
+      this.rejectClient(clientId, error instanceof JwtError ? error.message : 'Invalid token');
+      return;
+    }
+
+    const { userId, roles, isAdmin, attributes } = user;
+    let preferences: NotificationPreferences;
+    try {
+      preferences = (await this.preferenceStore.get(userId)) ?? DEFAULT_PREFERENCES;
+    } catch (error) {
+      console.error(`❌ [Notification] Failed to load preferences for userId=${userId}:`, error);
+      this.sendSafe(client.ws, { type: 'error', message: 'Could not load notification preferences' }, clientId);
+      client.ws.close(1011, 'Could not load notification preferences');
+      this.removeClient(clientId);
+      return;
+    }
+    if (this.clients.get(clientId) !== client) return; // Closed (or timed out) while loading
+
+    const tags = normalizeTags(user.tags, declaredTags);
+    clearTimeout(client.authTimer);
+    client.authTimer = undefined;
     client.userId = userId;
+    client.roles = roles;
+    client.tags = tags;
+    client.attributes = attributes;
     client.isAdmin = isAdmin;
+    client.preferences = preferences;
+    client.inQuietHours = this.inQuietHours(preferences);
 
     if (isAdmin) {
       this.adminClients.add(clientId);
+    } else {
+      this.adminClients.delete(clientId);
     }
 
     this.sendSafe(client.ws, {
       type: 'authenticated',
       userId,
+      roles,
+      tags,
       isAdmin
     }, clientId);
+
+    this.deliverMissed(clientId, this.profileOf(client)).catch(error => {
+      console.error(`❌ [Notification] Failed to deliver missed notifications:`, error);
+    });
+  }
+
+  /**
+   * Verify a notification token (socket or HTTP). Throws JwtError when it isn't valid.
+   */
+  public verifyToken(token: string): NotificationUser {
+    const claims = verifyJwt(token, this.auth.jwtSecret, this.auth);
+    const roles = Array.isArray(claims.roles) ? claims.roles.filter((role): role is string => typeof role === 'string') : [];
+    return {
+      userId: claims.sub,
+      roles,
+      tags: normalizeTags(claims.tags),
+      attributes: attributesFromClaims(claims),
+      isAdmin: roles.includes(this.auth.adminRole ?? 'admin'),
+    };
+  }
+
+  /**
+   * What audience rules are matched against for an authenticated client
+   */
+  private profileOf(client: ClientConnection): AudienceProfile {
+    return {
+      userId: client.userId!,
+      roles: client.roles ?? [],
+      tags: client.tags ?? [],
+      attributes: client.attributes ?? {},
+    };
+  }
+
+  /**
+   * A page of the user's notification history, newest first
+   */
+  public listNotifications(profile: AudienceProfile, query: NotificationListQuery): Promise<NotificationPage> {
+    return this.store.listForUser(profile, query);
+  }
+
+  public getUnreadCount(profile: AudienceProfile): Promise<number> {
+    return this.store.countUnread(profile);
+  }
+
+  /**
+   * Mark all of the user's notifications read and tell their connections here the unread count is now 0
+   */
+  public async markAllRead(profile: AudienceProfile): Promise<number> {
+    const { userId } = profile;
+    const marked = await this.store.markAllRead(profile);
+    for (const [clientId, client] of this.clients.entries()) {
+      if (client.userId === userId) {
+        this.sendSafe(client.ws, { type: 'unread-count', count: 0 }, clientId);
+      }
+    }
+    return marked;
+  }
+
+  public async getPreferences(userId: string): Promise<NotificationPreferences> {
+    return (await this.preferenceStore.get(userId)) ?? DEFAULT_PREFERENCES;
+  }
+
+  /**
+   * Replace the user's preferences and apply them to their connections here and on other replicas
+   */
+  public async updatePreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    await this.preferenceStore.save(userId, preferences);
+    this.applyPreferences(userId, preferences);
+    this.backplane?.publish(PREFERENCES_CHANNEL, { userId, preferences });
+    return preferences;
+  }
+
+  private applyPreferences(userId: string, preferences: NotificationPreferences) {
+    for (const [clientId, client] of this.clients) {
+      if (client.userId === userId) {
+        client.preferences = preferences;
+        this.updateQuietHours(clientId, client);
+      }
+    }
+  }
+
+  private inQuietHours(preferences: NotificationPreferences, now: number = Date.now()): boolean {
+    return preferences.quietHours !== null && isQuietTime(preferences.quietHours, now);
   }
 
-  public broadcastNotification(notification: NotificationData) {
+  /**
+   * Send what quiet hours held back to clients whose quiet hours have ended
+   */
+  private checkQuietHours() {
+    const now = Date.now();
+    for (const [clientId, client] of this.clients) {
+      this.updateQuietHours(clientId, client, now);
+    }
+  }
+
+  private updateQuietHours(clientId: string, client: ClientConnection, now: number = Date.now()) {
+    if (!client.userId || !client.preferences) return;
+
+    const wasQuiet = client.inQuietHours;
+    client.inQuietHours = this.inQuietHours(client.preferences, now);
+    if (wasQuiet && !client.inQuietHours) {
+      this.deliverMissed(clientId, this.profileOf(client)).catch(error => {
+        console.error(`❌ [Notification] Failed to deliver notifications held for quiet hours:`, error);
+      });
+    }
+  }
+
+  /**
+   * Hold a notification until its sendAt or cron time. Throws ScheduleError for bad input.
+   */
+  public scheduleNotification(request: ScheduleRequest): Promise<ScheduledNotification> {
+    return this.scheduler.schedule(request);
+  }
+
+  public listSchedules(): Promise<ScheduledNotification[]> {
+    return this.scheduler.list();
+  }
+
+  public cancelSchedule(id: string): Promise<boolean> {
+    return this.scheduler.cancel(id);
+  }
+
+  /**
+   * Store the notification (so users who are offline get it when they authenticate),
+   * send it to matching clients here and on other replicas
+   */
+  public async broadcastNotification(notification: NotificationData) {
+    await this.storeAndDeliver(notification);
+    this.backplane?.publish(NOTIFICATIONS_CHANNEL, notification);
+  }
+
+  private async storeAndDeliver(notification: NotificationData) {
+    try {
+      await this.store.save(notification);
+    } catch (error) {
+      // Still deliver to whoever is online
+      console.error(`❌ [Notification] Failed to store notification ${notification.id}:`, error);
+    }
+    this.deliverNotification(notification);
+  }
+
+  /**
+   * Send to this replica's matching clients. Inactive and expired notifications are not sent.
+   */
+  private deliverNotification(notification: NotificationData) {
+    if (!isNotificationLive(notification)) {
+      return;
+    }
+
     const message: NotificationMessage = {
       type: 'notification',
       data: notification
     };
+    const deliveredTo = new Set<string>();
 
     let sentCount = 0;
     let errorCount = 0;
@@ -158,6 +634,7 @@ export class NotificationWebSocketServer {
         if (this.shouldSendToUser(client, notification)) {
           if (this.sendSafe(client.ws, message, clientId)) {
             sentCount++;
+            deliveredTo.add(client.userId as string);
           } else {
             errorCount++;
           }
@@ -170,33 +647,40 @@ export class NotificationWebSocketServer {
     if (errorCount > 0) {
       console.error(`❌ [Notification] Broadcast errors: ${errorCount} failed sends`);
     }
+
+    for (const userId of deliveredTo) {
+      this.store.recordReceipt(userId, notification.id, 'delivered').catch(error => {
+        console.error(`❌ [Notification] Failed to record delivery of ${notification.id}:`, error);
+      });
+    }
   }
 
   private shouldSendToUser(client: ClientConnection, notification: NotificationData): boolean {
-    // Never send notifications to system broadcast clients (they're only for sending, not receiving)
-    if (client.userId === 'system-broadcast-client') {
+    // If user is not authenticated (preferences are set along with the user), don't send
+    if (!client.userId || !client.preferences) {
       return false;
     }
 
-    // If it's a global notification, send to everyone (except broadcast clients)
-    if (notification.isGlobal) {
-      return true;
-    }
-
-    // If user is not authenticated, don't send
-    if (!client.userId) {
+    // Never send notifications to system broadcast clients (they're only for sending, not receiving)
+    if (client.userId === 'system-broadcast-client') {
       return false;
     }
 
-    // If notification is targeted to specific users, check if this user is included
-    if (notification.targetUserIds.includes(client.userId)) {
-      return true;
+    // Listed users, then the audience rules (or everyone for a global notification)
+    if (!isAddressedTo(notification, this.profileOf(client))) {
+      return false;
     }
 
-    return false;
+    // Muted types, low priorities and quiet hours (which URGENT ignores)
+    return allowsNotification(client.preferences, notification);
   }
 
   public broadcastToAdmins(message: any) {
+    this.deliverToAdmins(message);
+    this.backplane?.publish(ADMIN_MESSAGES_CHANNEL, message);
+  }
+
+  private deliverToAdmins(message: any) {
     this.adminClients.forEach(clientId => {
       const client = this.clients.get(clientId);
       if (client && client.ws.readyState === WebSocket.OPEN) {
@@ -238,7 +722,7 @@ export class NotificationWebSocketServer {
       return false;
     }
 
-    this.broadcastNotification(notification);
+    void this.broadcastNotification(notification);
     
     this.sendSafe(client.ws, {
       type: 'broadcast-complete',
@@ -269,8 +753,7 @@ export class NotificationWebSocketServer {
     } catch (error) {
       console.error(`❌ [Notification] Failed to send message:`, error instanceof Error ? error.message : error);
       // If send fails, the connection is likely broken, remove the client
-      this.clients.delete(clientId);
-      this.adminClients.delete(clientId);
+      this.removeClient(clientId);
       return false;
     }
   }
@@ -300,7 +783,8 @@ export class NotificationWebSocketServer {
       1012: 'Service Restart',
       1013: 'Try Again Later',
       1014: 'Bad Gateway',
-      1015: 'TLS Handshake'
+      1015: 'TLS Handshake',
+      [CLOSE_UNAUTHORIZED]: 'Unauthorized'
     };
     return codes[code] || `Unknown code (${code})`;
   }
@@ -1,4 +1,11 @@
 import { WebSocket } from 'ws';
+import type { NotificationPreferences } from './preferences.js';
+import type { AttributeValue, AudienceRules } from './audience.js';
+
+export type NotificationPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+
+// Lowest to highest
+export const NOTIFICATION_PRIORITIES: NotificationPriority[] = ['LOW', 'NORMAL', 'HIGH', 'URGENT'];
 
 export interface NotificationData {
   id: string;
@@ -7,9 +14,10 @@ export interface NotificationData {
   imageUrl?: string;
   typeId: string;
   isActive: boolean;
-  isGlobal: boolean;
-  targetUserIds: string[];
-  priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+  isGlobal: boolean; // Ignored when audience is set
+  targetUserIds: string[]; // Always receive it, whatever the audience
+  audience?: AudienceRules;
+  priority: NotificationPriority;
   expiresAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -25,12 +33,19 @@ export interface NotificationData {
 export interface NotificationMessage {
   type: 'notification';
   data: NotificationData;
+  missed?: boolean; // Sent after authenticate because the user was offline when it went out
 }
 
 export interface ClientConnection {
   ws: WebSocket;
-  userId?: string;
+  userId?: string; // Set once the client's token is verified
+  roles?: string[];
+  tags?: string[];
+  attributes?: Record<string, AttributeValue>;
   isAdmin?: boolean;
+  authTimer?: NodeJS.Timeout;
+  preferences?: NotificationPreferences; // Loaded before the client counts as authenticated
+  inQuietHours?: boolean; // As of the last check; notifications held back are sent once this turns false
 }
 
 
@@ -0,0 +1,73 @@
+import { NOTIFICATION_PRIORITIES, NotificationData, NotificationPriority } from './types.js';
+import { AudienceError, parseAudience } from './audience.js';
+
+export class NotificationDataError extends Error {}
+
+const MAX_ID_LENGTH = 256;
+const MAX_TARGET_USERS = 10000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, name: string): void {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new NotificationDataError(`notification.${name} must be a string`);
+  }
+}
+
+function optionalBoolean(value: unknown, name: string): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new NotificationDataError(`notification.${name} must be a boolean`);
+  }
+}
+
+/**
+ * Check a notification submitted for broadcast (HTTP body or socket frame) before it is stored
+ * and fanned out. Throws NotificationDataError describing the first problem found.
+ */
+export function validateNotificationData(input: unknown): NotificationData {
+  if (!isObject(input)) {
+    throw new NotificationDataError('Notification data is required');
+  }
+
+  const { id, title, priority, body, typeId, isActive, isGlobal, targetUserIds, expiresAt, type, audience } = input;
+  if (typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH) {
+    throw new NotificationDataError(`notification.id must be a non-empty string of at most ${MAX_ID_LENGTH} characters`);
+  }
+  if (typeof title !== 'string' || !title) {
+    throw new NotificationDataError('notification.title must be a non-empty string');
+  }
+  if (!NOTIFICATION_PRIORITIES.includes(priority as NotificationPriority)) {
+    throw new NotificationDataError(`notification.priority must be one of ${NOTIFICATION_PRIORITIES.join(', ')}`);
+  }
+
+  optionalString(body, 'body');
+  optionalString(typeId, 'typeId');
+  optionalBoolean(isActive, 'isActive');
+  optionalBoolean(isGlobal, 'isGlobal');
+  if (
+    targetUserIds !== undefined &&
+    (!Array.isArray(targetUserIds) ||
+      targetUserIds.length > MAX_TARGET_USERS ||
+      !targetUserIds.every(userId => typeof userId === 'string'))
+  ) {
+    throw new NotificationDataError(`notification.targetUserIds must be an array of at most ${MAX_TARGET_USERS} user ids`);
+  }
+  if (expiresAt !== undefined && (typeof expiresAt !== 'string' || Number.isNaN(Date.parse(expiresAt)))) {
+    throw new NotificationDataError('notification.expiresAt must be an ISO 8601 time');
+  }
+  if (type !== undefined && (!isObject(type) || typeof type.id !== 'string')) {
+    throw new NotificationDataError('notification.type must be an object with an id');
+  }
+  if (audience !== undefined) {
+    try {
+      parseAudience(audience);
+    } catch (error) {
+      if (error instanceof AudienceError) throw new NotificationDataError(error.message);
+      throw error;
+    }
+  }
+
+  return input as unknown as NotificationData;
+}
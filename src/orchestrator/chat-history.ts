@@ -1,127 +1,100 @@
 import { ChatMessage } from '../types/message.js';
+import { ChatHistoryStore, ChatSummary, InMemoryChatHistoryStore } from '../storage/chat-history-store.js';
 
 /**
  * ChatHistoryManager - Keeps track of messages per chat room
  * 
- * Since we're not using a database, this stores messages in memory.
- * Messages are organized by chatId/roomId.
+ * Messages are organized by chatId/roomId and persisted through a ChatHistoryStore
+ * (in-memory, SQLite or Postgres - see Config.chatHistory).
  */
 
-interface ChatHistory {
+export interface ChatHistoryPage {
   messages: ChatMessage[];
-  lastActivity: number;
+  total: number;
+  offset: number;
+  hasMore: boolean;
 }
 
 export class ChatHistoryManager {
-  private histories: Map<string, ChatHistory> = new Map();
+  private store: ChatHistoryStore;
   
-  // Auto-cleanup after 1 hour of inactivity
-  private readonly CLEANUP_INTERVAL = 1000 * 60 * 60; // 1 hour
-  
-  constructor() {
-    // Start cleanup timer
-    setInterval(() => this.cleanup(), this.CLEANUP_INTERVAL);
+  constructor(store: ChatHistoryStore = new InMemoryChatHistoryStore()) {
+    this.store = store;
   }
 
   /**
-   * Get conversation history for a chat
+   * Get conversation history for a chat, optionally skipping the oldest messages
    */
-  getHistory(chatId: string): ChatMessage[] {
-    const history = this.histories.get(chatId);
-    if (!history) {
-      return [];
-    }
-    return [...history.messages]; // Return copy
+  async getHistory(chatId: string, offset: number = 0): Promise<ChatMessage[]> {
+    return this.store.read(chatId, { offset });
   }
 
   /**
-   * Add a message to chat history
+   * Get a page of conversation history, oldest first
    */
-  addMessage(chatId: string, message: ChatMessage): void {
-    let history = this.histories.get(chatId);
-    
-    if (!history) {
-      history = {
-        messages: [],
-        lastActivity: Date.now(),
-      };
-      this.histories.set(chatId, history);
-    }
-
-    history.messages.push(message);
-    history.lastActivity = Date.now();
-    
-    // Message added to chat history
+  async getMessages(chatId: string, offset: number = 0, limit: number = 50): Promise<ChatHistoryPage> {
+    const [messages, total] = await Promise.all([
+      this.store.read(chatId, { offset, limit }),
+      this.store.count(chatId),
+    ]);
+    return {
+      messages,
+      total,
+      offset,
+      hasMore: offset + messages.length < total,
+    };
   }
 
   /**
-   * Get full conversation including system prompt
+   * Get the running summary of the chat's oldest messages, if any
    */
-  getConversation(chatId: string, systemPrompt: string): ChatMessage[] {
-    const history = this.getHistory(chatId);
-    
-    // If no history, return just system prompt
-    if (history.length === 0) {
-      return [];
-    }
-
-    return history;
+  async getSummary(chatId: string): Promise<ChatSummary | null> {
+    return this.store.getSummary(chatId);
   }
 
   /**
-   * Clear history for a specific chat
+   * Replace the running summary; messageCount is how many of the oldest messages it covers
    */
-  clearHistory(chatId: string): void {
-    this.histories.delete(chatId);
+  async setSummary(chatId: string, text: string, messageCount: number): Promise<void> {
+    await this.store.setSummary(chatId, { text, messageCount, updatedAt: Date.now() });
   }
 
   /**
-   * Get all active chat IDs
+   * Add a message to chat history
    */
-  getActiveChatIds(): string[] {
-    return Array.from(this.histories.keys());
+  async addMessage(chatId: string, message: ChatMessage): Promise<void> {
+    await this.store.append(chatId, message);
   }
 
   /**
-   * Get total message count across all chats
+   * Clear history for a specific chat
    */
-  getTotalMessageCount(): number {
-    let total = 0;
-    for (const history of this.histories.values()) {
-      total += history.messages.length;
-    }
-    return total;
+  async clearHistory(chatId: string): Promise<void> {
+    await this.store.delete(chatId);
   }
 
   /**
-   * Cleanup old chats (> 1 hour inactive)
+   * Get all known chat IDs
    */
-  private cleanup(): void {
-    const now = Date.now();
-    const idsToDelete: string[] = [];
-
-    for (const [chatId, history] of this.histories.entries()) {
-      if (now - history.lastActivity > this.CLEANUP_INTERVAL) {
-        idsToDelete.push(chatId);
-      }
-    }
-
-    for (const chatId of idsToDelete) {
-      this.histories.delete(chatId);
-    }
-
-    // Cleanup completed
+  async getActiveChatIds(): Promise<string[]> {
+    return this.store.listChatIds();
   }
 
   /**
    * Get statistics
    */
-  getStats() {
+  async getStats() {
+    const [stats, chatIds] = await Promise.all([
+      this.store.getStats(),
+      this.store.listChatIds(),
+    ]);
     return {
-      totalChats: this.histories.size,
-      totalMessages: this.getTotalMessageCount(),
-      chatIds: this.getActiveChatIds(),
+      ...stats,
+      chatIds,
     };
   }
-}
 
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
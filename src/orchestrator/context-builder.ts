@@ -0,0 +1,195 @@
+import { ChatMessage, Role } from '../types/message.js';
+import { ChatHistoryManager } from './chat-history.js';
+import { ChatSummarizer } from './summarizer.js';
+
+/**
+ * Token budget for the prompt sent to the model.
+ * History gets whatever the other sections leave of maxTokens.
+ */
+export interface ContextBudget {
+  maxTokens: number;
+  systemTokens: number;
+  documentTokens: number;
+  memoryTokens: number;
+}
+
+export interface ContextSections {
+  system: string; // Base prompt plus per-request context such as the cart
+  documents?: string; // Selected document chunks
+  memory?: string; // Personal memory retrieved from previous conversations
+}
+
+export interface SectionUsage {
+  tokens: number;
+  budget: number;
+  trimmedTokens: number;
+}
+
+export interface ContextReport {
+  system: SectionUsage;
+  documents: SectionUsage;
+  memory: SectionUsage;
+  history: {
+    tokens: number; // Kept messages plus the running summary
+    budget: number;
+    messages: number;
+    summaryTokens: number;
+    summarizedMessages: number; // Rolled into the summary while building this context
+  };
+}
+
+export interface BuiltContext {
+  systemPrompt: string;
+  messages: ChatMessage[]; // System prompt followed by the kept history
+  report: ContextReport;
+}
+
+// When history overflows, summarize down to this share of its budget so the next few
+// turns fit without summarizing again
+const SUMMARIZE_TARGET_RATIO = 0.5;
+// Upper bound on the summary itself (the summarizer asks for at most 200 words)
+const SUMMARY_RESERVE_TOKENS = 300;
+
+/**
+ * ContextBuilder - Assembles the model prompt within a token budget
+ *
+ * Each section (system, documents, personal memory) is cut to its own budget. History fills
+ * the rest: older turns that don't fit are rolled into a running summary that is stored with
+ * the chat, so they are only summarized once.
+ */
+export class ContextBuilder {
+  private chatHistory: ChatHistoryManager;
+  private summarizer: ChatSummarizer;
+  private budget: ContextBudget;
+
+  constructor(chatHistory: ChatHistoryManager, summarizer: ChatSummarizer, budget: ContextBudget) {
+    this.chatHistory = chatHistory;
+    this.summarizer = summarizer;
+    this.budget = budget;
+  }
+
+  async build(chatId: string, sections: ContextSections): Promise<BuiltContext> {
+    const system = this.fitSection(sections.system, this.budget.systemTokens);
+    const documents = this.fitSection(sections.documents ?? '', this.budget.documentTokens);
+    const memory = this.fitSection(sections.memory ?? '', this.budget.memoryTokens);
+    const historyBudget = Math.max(0, this.budget.maxTokens - system.usage.tokens - documents.usage.tokens - memory.usage.tokens);
+
+    const summary = await this.chatHistory.getSummary(chatId);
+    let summaryText = summary?.text ?? '';
+    let summarizedCount = summary?.messageCount ?? 0;
+    let turns = this.groupTurns(await this.chatHistory.getHistory(chatId, summarizedCount));
+    let summarizedNow = 0;
+
+    const historyTokens = () =>
+      this.estimateTokens(summaryText) + turns.reduce((sum, turn) => sum + this.estimateMessagesTokens(turn), 0);
+
+    if (historyTokens() > historyBudget && turns.length > 1) {
+      // Keep the newest turns that fit the target (always at least the latest one)
+      const target = historyBudget * SUMMARIZE_TARGET_RATIO - SUMMARY_RESERVE_TOKENS;
+      let keepFrom = turns.length - 1;
+      let kept = this.estimateMessagesTokens(turns[keepFrom]);
+      while (keepFrom > 0) {
+        const next = this.estimateMessagesTokens(turns[keepFrom - 1]);
+        if (kept + next > target) break;
+        kept += next;
+        keepFrom--;
+      }
+
+      const rolledUp = turns.slice(0, keepFrom).flat();
+      if (rolledUp.length > 0) {
+        try {
+          summaryText = await this.summarizer.summarizeMessages(chatId, rolledUp, summaryText || undefined);
+          summarizedCount += rolledUp.length;
+          summarizedNow = rolledUp.length;
+          turns = turns.slice(keepFrom);
+          await this.chatHistory.setSummary(chatId, summaryText, summarizedCount);
+        } catch (error) {
+          // Nothing is stored, so the next turn tries again; this one goes out with the full history
+          console.warn(`[Context] chatId=${chatId} summarization failed, keeping ${rolledUp.length} older messages:`, error);
+        }
+      }
+    }
+
+    const history = turns.flat();
+    const promptParts = [system.text, documents.text, memory.text];
+    if (summaryText) {
+      promptParts.push(`## EARLIER CONVERSATION SUMMARY\nOlder messages in this chat were condensed into this summary:\n${summaryText}`);
+    }
+    const systemPrompt = promptParts.filter(Boolean).join('\n\n');
+
+    const report: ContextReport = {
+      system: system.usage,
+      documents: documents.usage,
+      memory: memory.usage,
+      history: {
+        tokens: historyTokens(),
+        budget: historyBudget,
+        messages: history.length,
+        summaryTokens: this.estimateTokens(summaryText),
+        summarizedMessages: summarizedNow,
+      },
+    };
+    this.logReport(chatId, report);
+
+    return {
+      systemPrompt,
+      messages: [{ role: Role.System, content: systemPrompt }, ...history],
+      report,
+    };
+  }
+
+  /**
+   * Group history into turns that must stay together: an assistant message with tool calls
+   * and the tool results answering it are kept or summarized as one unit.
+   */
+  private groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+    const turns: ChatMessage[][] = [];
+    for (const message of messages) {
+      const previous = turns[turns.length - 1];
+      if (message.role === Role.Function && message.toolCallId && previous?.[0]?.toolCalls?.length) {
+        previous.push(message);
+      } else {
+        turns.push([message]);
+      }
+    }
+    return turns;
+  }
+
+  private fitSection(text: string, budget: number): { text: string; usage: SectionUsage } {
+    const tokens = this.estimateTokens(text);
+    if (tokens <= budget) {
+      return { text, usage: { tokens, budget, trimmedTokens: 0 } };
+    }
+
+    // estimateTokens counts ~4 characters per token
+    const marker = '\n[…truncated to fit the context budget]';
+    const trimmed = text.slice(0, Math.max(0, budget * 4 - marker.length)) + marker;
+    const trimmedTokens = this.estimateTokens(trimmed);
+    return { text: trimmed, usage: { tokens: trimmedTokens, budget, trimmedTokens: tokens - trimmedTokens } };
+  }
+
+  private estimateMessagesTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, message) => {
+      const toolCalls = message.toolCalls ? JSON.stringify(message.toolCalls) : '';
+      return sum + this.estimateTokens(message.content) + this.estimateTokens(toolCalls);
+    }, 0);
+  }
+
+  private estimateTokens(text: string): number {
+    return text ? this.summarizer.estimateTokens(text) : 0;
+  }
+
+  private logReport(chatId: string, report: ContextReport): void {
+    const section = (name: string, usage: SectionUsage) =>
+      `${name}=${usage.tokens}/${usage.budget}${usage.trimmedTokens ? ` (trimmed ${usage.trimmedTokens})` : ''}`;
+    console.log(
+      `[Context] chatId=${chatId} maxTokens=${this.budget.maxTokens} ` +
+      `${section('system', report.system)} ${section('documents', report.documents)} ${section('memory', report.memory)} ` +
+      `history=${report.history.tokens}/${report.history.budget} messages=${report.history.messages} summaryTokens=${report.history.summaryTokens}` +
+      (report.history.summarizedMessages ? ` summarized=${report.history.summarizedMessages}` : '')
+    );
+    if (report.history.tokens > report.history.budget) {
+      console.warn(`[Context] chatId=${chatId} history still over budget after summarization (latest turn alone is too large)`);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from 'crypto';
+import { FunctionCallResponse, FunctionExecutionLocation } from '../llm/provider.js';
+import { BACKEND_FUNCTION_DECLARATIONS } from '../llm/functions.js';
+import { FRONTEND_FUNCTION_SCHEMAS, FunctionDeclaration } from '../tools/function-schemas.js';
+import { WebSocketServer } from '../websocket/server.js';
+import { FunctionExecuteRequest, FunctionExecuteResponse, MessageType } from '../websocket/protocol.js';
+
+/**
+ * Frontend functions that are not shadowed by a backend implementation of the same name.
+ * These are declared to the model alongside the backend functions.
+ */
+export const FRONTEND_ONLY_FUNCTIONS: FunctionDeclaration[] = FRONTEND_FUNCTION_SCHEMAS.filter(
+  schema => !BACKEND_FUNCTION_DECLARATIONS.some(backend => backend.name === schema.name)
+);
+
+export function getFunctionLocation(functionName: string): FunctionExecutionLocation | undefined {
+  if (BACKEND_FUNCTION_DECLARATIONS.some(func => func.name === functionName)) {
+    return FunctionExecutionLocation.Backend;
+  }
+  if (FRONTEND_ONLY_FUNCTIONS.some(func => func.name === functionName)) {
+    return FunctionExecutionLocation.Frontend;
+  }
+  return undefined;
+}
+
+interface PendingRequest {
+  chatId: string;
+  functionName: string;
+  timer: NodeJS.Timeout;
+  settle: (result: unknown) => void;
+}
+
+/**
+ * FrontendFunctionBridge - Executes functions on the client that owns the state (cart, orders)
+ *
+ * Sends a FunctionExecuteRequest to the chat room and waits for the matching
+ * FunctionExecuteResponse (by requestId). Failures, timeouts and cancellations
+ * resolve with an error result so the model can explain what happened.
+ */
+export class FrontendFunctionBridge {
+  private pending: Map<string, PendingRequest> = new Map();
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = 30000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  execute(
+    chatId: string,
+    functionCall: FunctionCallResponse,
+    wsServer: WebSocketServer,
+    abortSignal?: AbortSignal
+  ): Promise<unknown> {
+    const requestId = `fn_${randomUUID()}`;
+
+    return new Promise(resolve => {
+      const onAbort = () => settle({
+        error: true,
+        function: functionCall.name,
+        message: 'Function execution was cancelled'
+      });
+
+      const settle = (result: unknown) => {
+        const request = this.pending.get(requestId);
+        if (!request) return;
+        clearTimeout(request.timer);
+        abortSignal?.removeEventListener('abort', onAbort);
+        this.pending.delete(requestId);
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        console.warn(`[FrontendFn] Timed out requestId=${requestId} function=${functionCall.name} chatId=${chatId}`);
+        settle({
+          error: true,
+          function: functionCall.name,
+          message: `The user's browser did not respond to ${functionCall.name} within ${Math.round(this.timeoutMs / 1000)}s`
+        });
+      }, this.timeoutMs);
+
+      this.pending.set(requestId, { chatId, functionName: functionCall.name, timer, settle });
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      const request: FunctionExecuteRequest = {
+        functionName: functionCall.name,
+        args: functionCall.args,
+        requestId
+      };
+      wsServer.broadcastToRoom(chatId, {
+        type: MessageType.FunctionExecuteRequest,
+        payload: request,
+        timestamp: Date.now(),
+        message_id: `fn_req_${Date.now()}`
+      });
+    });
+  }
+
+  /**
+   * Settle a pending request with the client's response.
+   * Only clients in the request's chat room may answer it.
+   * Returns false if the requestId is unknown (already settled or never sent).
+   */
+  resolve(response: FunctionExecuteResponse, clientRooms: Set<string>): boolean {
+    const request = this.pending.get(response.requestId);
+    if (!request || !clientRooms.has(request.chatId)) {
+      return false;
+    }
+
+    if (response.error) {
+      request.settle({
+        error: true,
+        function: request.functionName,
+        message: response.error
+      });
+    } else {
+      request.settle(response.result ?? { success: true });
+    }
+    return true;
+  }
+
+  /**
+   * Cancel every pending request for a chat (e.g. on StopGeneration)
+   */
+  cancelChat(chatId: string): void {
+    for (const request of Array.from(this.pending.values())) {
+      if (request.chatId === chatId) {
+        request.settle({
+          error: true,
+          function: request.functionName,
+          message: 'Function execution was cancelled'
+        });
+      }
+    }
+  }
+}
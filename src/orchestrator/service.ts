@@ -1,9 +1,23 @@
-import { OpenAIProvider, OpenAIModel, AvailableFunction, FunctionCallResponse } from '../llm/openai.js';
+import { OpenAIProvider } from '../llm/openai.js';
+import {
+  AvailableFunction,
+  FunctionCallResponse,
+  FunctionExecutionLocation,
+  LLMProvider,
+  LLMProviderName,
+  LLMSelection,
+  isLLMProviderName,
+} from '../llm/provider.js';
+import { LLMAttempt, LLMChainExhaustedError, LLMFailoverChain, RetryPolicy } from '../llm/failover.js';
 import { ChatMessage, Role } from '../types/message.js';
 import { WebSocketServer } from '../websocket/server.js';
-import { MessageType } from '../websocket/protocol.js';
+import { MessageType, LLMSelectionData, FunctionExecuteResponse } from '../websocket/protocol.js';
 import { browsePublishers, BrowsePublishersArgs, BrowsePublishersResult } from '../tools/publishers.js';
 import { ChatHistoryManager } from './chat-history.js';
+import { ChatHistoryStore } from '../storage/chat-history-store.js';
+import { ChatSummarizer } from './summarizer.js';
+import { ContextBudget, ContextBuilder } from './context-builder.js';
+import { FRONTEND_ONLY_FUNCTIONS, FrontendFunctionBridge, getFunctionLocation } from './frontend-functions.js';
 import { EmbeddingService } from '../services/embeddings.js';
 import { PineconeService } from '../services/pinecone.js';
 import { EmbeddingQueue } from '../queues/embedding-queue.js';
@@ -17,20 +31,84 @@ function safeArgs(value: unknown, maxLen: number = 600): string {
   }
 }
 
+/**
+ * A tool call assembled from a streamed turn. argumentsError is set when the model's
+ * arguments were not a JSON object; the call is then answered with an error instead of being run.
+ */
+type StreamedFunctionCall = FunctionCallResponse & { argumentsError?: string };
+
+function parseToolArguments(raw: string): { args: Record<string, unknown>; error?: string } {
+  if (!raw) {
+    return { args: {} };
+  }
+  try {
+    const args: unknown = JSON.parse(raw);
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      return { args: {}, error: 'arguments must be a JSON object' };
+    }
+    return { args: args as Record<string, unknown> };
+  } catch (error) {
+    return { args: {}, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 export class OrchestratorService {
-  private openai: OpenAIProvider;
+  private providers: Map<LLMProviderName, LLMProvider> = new Map();
+  private defaultLLM: LLMSelection;
+  private chatLLM: Map<string, LLMSelection> = new Map(); // chatId -> per-chat override
+  private llm: LLMFailoverChain;
+  private frontendFunctions: FrontendFunctionBridge;
   private abortControllers: Map<string, AbortController> = new Map();
   private chatHistory: ChatHistoryManager;
+  private contextBuilder: ContextBuilder;
   private embedder?: EmbeddingService;
   private pinecone?: PineconeService;
   private embeddingQueue?: EmbeddingQueue;
-
-  constructor(openAiApiKey: string, opts?: { embedder?: EmbeddingService; pinecone?: PineconeService; embeddingQueue?: EmbeddingQueue }) {
-    this.openai = new OpenAIProvider(openAiApiKey);
-    this.chatHistory = new ChatHistoryManager();
+  private maxIterations: number; // Tool rounds per user message; one more tool-less turn then forces the answer
+
+  constructor(
+    openAiApiKey: string,
+    opts?: {
+      embedder?: EmbeddingService;
+      pinecone?: PineconeService;
+      embeddingQueue?: EmbeddingQueue;
+      maxIterations?: number;
+      providers?: LLMProvider[];
+      defaultLLM?: { provider: LLMProviderName; model?: string };
+      llmFallbacks?: Array<{ provider: LLMProviderName; model?: string }>;
+      retryPolicy?: RetryPolicy;
+      frontendFunctionTimeoutMs?: number;
+      chatHistoryStore?: ChatHistoryStore;
+      contextBudget?: ContextBudget;
+    }
+  ) {
+    const providers = opts?.providers?.length ? opts.providers : [new OpenAIProvider(openAiApiKey)];
+    providers.forEach(provider => this.providers.set(provider.name, provider));
+    const defaultProvider = (opts?.defaultLLM && this.providers.get(opts.defaultLLM.provider)) || providers[0];
+    this.defaultLLM = {
+      provider: defaultProvider.name,
+      model: opts?.defaultLLM?.model || defaultProvider.defaultModel,
+    };
+    const fallbacks = (opts?.llmFallbacks ?? []).map(fallback => ({
+      provider: fallback.provider,
+      model: fallback.model || this.providers.get(fallback.provider)?.defaultModel || '',
+    }));
+    this.llm = new LLMFailoverChain(
+      this.providers,
+      fallbacks,
+      opts?.retryPolicy ?? { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 8000 }
+    );
+    this.chatHistory = new ChatHistoryManager(opts?.chatHistoryStore);
+    this.contextBuilder = new ContextBuilder(
+      this.chatHistory,
+      new ChatSummarizer(this.llm, chatId => this.resolveLLM(chatId)),
+      opts?.contextBudget ?? { maxTokens: 12000, systemTokens: 2000, documentTokens: 4000, memoryTokens: 1500 }
+    );
     this.embedder = opts?.embedder;
     this.pinecone = opts?.pinecone;
     this.embeddingQueue = opts?.embeddingQueue;
+    this.maxIterations = Math.max(1, opts?.maxIterations ?? 5);
+    this.frontendFunctions = new FrontendFunctionBridge(opts?.frontendFunctionTimeoutMs);
   }
 
   private readonly SYSTEM_PROMPT = `You are an intelligent AI assistant with access to tools, user documents, and conversation history.
@@ -58,6 +136,9 @@ You have access to these tools for specific tasks:
 - viewCart: View the current shopping cart contents
 - addToCart: Add a publisher or product to the shopping cart
 - processPayment: Process payment for cart items
+- removeFromCart, updateCartItemQuantity, clearCart: Edit the items already in the cart
+- getPublisherDetails: Get detailed information about a specific publisher
+- displayOrders: Show the user's orders
 
 **When to Use Tools:**
 - Use browsePublishers ONLY when user explicitly asks to find/search/browse publishers
@@ -123,9 +204,14 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
       totalPrice: number;
     }
   ): Promise<void> {
+    // Support cancellation per chat via AbortController. It is registered before the first await so a
+    // stop (or the last participant leaving) during retrieval cancels the turn before the model is called.
+    const controller = new AbortController();
+    this.abortControllers.set(chatId, controller);
     try {
       // Add user message to history
-      this.chatHistory.addMessage(chatId, userMessage);
+      await this.chatHistory.addMessage(chatId, userMessage);
+      controller.signal.throwIfAborted();
 
       // Debug: log selected document references if any
       console.log(`[DocRAG] DEBUG: selectedDocuments parameter:`, {
@@ -152,11 +238,8 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
         }
       } catch {}
 
-      // Get conversation history for this chat
-      const messageHistory = this.chatHistory.getHistory(chatId);
-      
-      // Build conversation with system prompt + history
-      // Include cart context in system prompt if available
+      // Build the system section - cart context is included if available.
+      // Documents, personal memory and history are budgeted separately by the ContextBuilder.
       let systemPrompt = this.SYSTEM_PROMPT;
       
       // Get userId early for document retrieval
@@ -164,6 +247,7 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
 
       // Store document context separately (like mosaic-next does)
       let documentContext = '';
+      let memoryContext = '';
 
       // ===== DOCUMENT RETRIEVAL - Handle FIRST and independently =====
       // This ensures documents are retrieved even if conversation RAG fails or is disabled
@@ -246,13 +330,7 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
       
       // Always log document context status
       console.log(`[DocRAG] Document context status: ${documentContext ? `PREPARED (${documentContext.length} chars)` : 'NOT PREPARED'}`);
-      
-      // Insert document context into system prompt (like mosaic-next line 176)
-      // Insert it naturally - the AI will understand how to use it
-      if (documentContext) {
-        systemPrompt = systemPrompt + '\n\n' + documentContext;
-        console.log('[DocRAG] ✅ Document context inserted into system prompt');
-      }
+      controller.signal.throwIfAborted();
 
       // Inject Personalization Context via RAG (non-blocking if services missing)
       try {
@@ -356,7 +434,7 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
               contextSection += 'REMEMBER: When the user asks "tell me my X" or "what is my Y", use the information above. ';
               contextSection += 'Do NOT say you don\'t have access - you have this information from their conversation history.\n';
               
-              systemPrompt += contextSection;
+              memoryContext = contextSection.trim();
 
               // Debug logging
               console.log(`[RAG] Context injected: profileFacts=${profileFacts.length} conversationContext=${conversationContext.length}`);
@@ -376,6 +454,7 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
         // On any retrieval failure, proceed without personalization context
         console.error(`[RAG] Retrieval failed chatId=${chatId}`);
       }
+      controller.signal.throwIfAborted();
       
       if (cartData && cartData.items.length > 0) {
         systemPrompt += `\n\n## Current Cart Context:
@@ -385,13 +464,22 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
 `;
       }
       
-      const conversation: ChatMessage[] = [
-        { role: Role.System, content: systemPrompt },
-        ...messageHistory
-      ];
+      // Fit system, documents, personal memory and history into the token budget
+      // (older turns may be rolled into the chat's running summary)
+      const context = await this.contextBuilder.build(chatId, {
+        system: systemPrompt,
+        documents: documentContext,
+        memory: memoryContext,
+      });
+      controller.signal.throwIfAborted();
+      const conversation: ChatMessage[] = context.messages;
+      if (documentContext) {
+        console.log('[DocRAG] ✅ Document context inserted into system prompt');
+      }
 
       // Debug: log final system prompt/context being sent to the model (truncated for safety)
       try {
+        const systemPrompt = context.systemPrompt;
         const hasDocContext = systemPrompt.includes('RELEVANT DOCUMENT CONTEXT') || 
                               systemPrompt.includes('REFERENCED DOCUMENTS') || 
                               systemPrompt.includes('📄 RELEVANT DOCUMENT CONTEXT') ||
@@ -415,162 +503,123 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
         console.log('[AI] Final system prompt preview (first 2000 chars):\n', preview);
       } catch {}
 
-      // STEP 1: Analyze intent and decide on tool usage
-      // Support cancellation per chat via AbortController
-      const controller = new AbortController();
-      this.abortControllers.set(chatId, controller);
-
+      // STEP 1: Decide on tool usage
       // Guard tools: disable tools for document-summary style intents or when user provided selected document references
       const lowered = (userMessage.content || '').toLowerCase();
       const looksLikeDocTask = /\b(summarize|summary|summarise|explain|analyze|analyse|document|doc|pdf|csv|xlsx|txt)\b/.test(lowered);
       const hasSelectedDocs = typeof (selectedDocuments as any)?.length === 'number' && (selectedDocuments as any).length > 0;
       const shouldUseFunctions = !(looksLikeDocTask || hasSelectedDocs);
 
-      const analysisResponse = await this.openai.call(
-        conversation,
-        OpenAIModel.GPT35Turbo,
-        shouldUseFunctions,
-        [],
-        controller.signal
-      );
-
-      const candidate = analysisResponse.candidates[0];
-      if (!candidate || !candidate.content?.parts) {
-        this.sendErrorMessage(chatId, 'No response from AI', wsServer);
-        return;
-      }
+      // STEP 2: Agent loop - let the model call tools until it answers without them.
+      // Every tool call returned in a turn is executed in parallel and fed back before the next turn.
+      const totalIterations = this.maxIterations + 1;
+      for (let iteration = 1; iteration <= totalIterations; iteration++) {
+        this.sendIterationMessage(chatId, MessageType.IterationStart, { iteration, maxIterations: totalIterations }, wsServer);
 
-      const parts = candidate.content.parts;
-      let functionToCall: FunctionCallResponse | null = null;
-      let intentAnalysis = '';
+        // After maxIterations tool rounds, disable tools so the model has to produce a final answer
+        const isLastIteration = iteration === totalIterations;
+        const turn = await this.streamModelResponse(
+          chatId,
+          conversation,
+          shouldUseFunctions && !isLastIteration,
+          wsServer,
+          controller.signal
+        );
 
-      // Process intent analysis and tool decision
-      for (const part of parts) {
-        if (part.text && part.text.trim()) {
-          intentAnalysis = part.text;
-          
-          // Stream the reasoning to frontend (but don't add to history yet - will add later)
-          await this.streamTextResponse(chatId, part.text, wsServer);
+        if (turn.aborted) {
+          if (turn.text) {
+            await this.chatHistory.addMessage(chatId, { role: Role.Assistant, content: turn.text });
+          }
+          this.sendIterationMessage(chatId, MessageType.IterationEnd, { iteration, toolCalls: [], final: true, stopped: true, llm: turn.llm }, wsServer);
+          return;
         }
 
-        if (part.functionCall) {
-          functionToCall = part.functionCall;
-          this.sendFunctionCallMessage(chatId, functionToCall, wsServer);
+        if (!turn.text && turn.functionCalls.length === 0) {
+          if (iteration === 1) {
+            this.sendErrorMessage(chatId, 'No response from AI', wsServer);
+          }
+          this.sendIterationMessage(chatId, MessageType.IterationEnd, { iteration, toolCalls: [], final: true, llm: turn.llm }, wsServer);
+          return;
         }
-      }
 
-      // STEP 2: Execute tool if needed
-      if (functionToCall) {
-        // Notify frontend that tool execution is starting
-        this.sendFunctionCallStartMessage(chatId, functionToCall.name, wsServer);
-        
-        const toolResult = await this.executeFunction(functionToCall, chatId, wsServer, cartData);
+        // No tool needed - this turn is the final answer
+        if (turn.functionCalls.length === 0) {
+          await this.chatHistory.addMessage(chatId, {
+            role: Role.Assistant,
+            content: turn.text
+          });
 
-        // Notify frontend that tool execution completed
-        this.sendFunctionCallEndMessage(chatId, functionToCall.name, wsServer);
+          // Enqueue embeddings for assistant final message (non-blocking)
+          this.enqueueAssistantEmbedding(chatId, turn.text, wsServer);
+          this.sendIterationMessage(chatId, MessageType.IterationEnd, { iteration, toolCalls: [], final: true, llm: turn.llm }, wsServer);
+          return;
+        }
 
-        // If there was no intent analysis text, create a simple one
-        const assistantContent = intentAnalysis || `I'm using the ${functionToCall.name} tool to help with your request.`;
-        
-        // For OpenAI, we don't add the function response here because we don't have the tool_call_id
-        // Instead, we'll format it as text for the summary
-        const formattedResult = typeof toolResult === 'object' 
-          ? JSON.stringify(toolResult, null, 2)
-          : String(toolResult);
-        
-        // Add to conversation for final summary with context
-        conversation.push({
-          role: Role.Assistant,
-          content: assistantContent
-        });
-        
-        // Add function result as a user message for context (OpenAI compatibility)
-        conversation.push({
-          role: Role.User,
-          content: `The ${functionToCall.name} function returned: ${formattedResult}. Please summarize the results.`
-        });
+        const toolNames = turn.functionCalls.map(call => call.name);
+        for (const functionCall of turn.functionCalls) {
+          this.sendFunctionCallMessage(chatId, functionCall, wsServer);
+        }
 
-        this.chatHistory.addMessage(chatId, {
+        const toolResults = await Promise.all(turn.functionCalls.map(async functionCall => {
+          // Notify frontend that tool execution is starting
+          this.sendFunctionCallStartMessage(chatId, functionCall.name, wsServer);
+          // Malformed arguments go back to the model as an error result so it can call again
+          const result = functionCall.argumentsError
+            ? {
+                error: true,
+                function: functionCall.name,
+                message: `Invalid arguments for ${functionCall.name}: ${functionCall.argumentsError}`,
+                details: 'The function was not run. Call it again with its arguments as a valid JSON object.'
+              }
+            : await this.executeFunction(functionCall, chatId, wsServer, cartData, controller.signal);
+          // Notify frontend that tool execution completed
+          this.sendFunctionCallEndMessage(chatId, functionCall.name, wsServer);
+          return { functionCall, result };
+        }));
+        controller.signal.throwIfAborted();
+
+        // Record the assistant turn with its tool calls, followed by one result message per call,
+        // so later turns (and later messages in this chat) see the real tool results
+        const assistantMessage: ChatMessage = {
           role: Role.Assistant,
-          content: assistantContent
-        });
-        
-        this.chatHistory.addMessage(chatId, {
-          role: Role.Function,
-          content: JSON.stringify(toolResult),
-          name: functionToCall.name
-        });
-
-        this.sendFunctionResultMessage(chatId, functionToCall.name, toolResult, wsServer);
-
-        // STEP 3: Generate final summary
-        const summaryResponse = await this.openai.call(
-          conversation,
-          OpenAIModel.GPT35Turbo,
-          false // No functions needed for summary
-        );
-
-        const summaryCandidate = summaryResponse.candidates[0];
-
-        if (summaryCandidate?.content?.parts) {
-          let summaryText = '';
-          for (const part of summaryCandidate.content.parts) {
-            if (part.text && part.text.trim()) {
-              summaryText = part.text;
-              await this.streamTextResponse(chatId, part.text, wsServer);
-              
-              const finalMessage: ChatMessage = {
-                role: Role.Assistant,
-                content: part.text
-              };
-              this.chatHistory.addMessage(chatId, finalMessage);
-
-              // Enqueue embeddings for assistant final message (non-blocking)
-              try {
-                const userId = (wsServer as any).getUserIdForChat?.(chatId) as string | undefined;
-                if (userId && this.embeddingQueue) {
-                  this.embeddingQueue.enqueue({
-                    userId,
-                    chatId,
-                    messageId: `assistant_${Date.now()}`,
-                    role: 'assistant',
-                    content: part.text,
-                    createdAt: new Date().toISOString(),
-                  });
-                  console.log(`[RAG] Enqueued assistant embedding chatId=${chatId}`);
-                }
-              } catch {}
-            }
-          }
-        }
-      } else {
-        // No tool needed - just respond directly
-        if (intentAnalysis) {
-          const finalMessage: ChatMessage = {
-            role: Role.Assistant,
-            content: intentAnalysis
+          content: turn.text,
+          toolCalls: turn.functionCalls.map(call => ({
+            id: call.id as string,
+            name: call.name,
+            args: call.args
+          }))
+        };
+        conversation.push(assistantMessage);
+        await this.chatHistory.addMessage(chatId, assistantMessage);
+
+        for (const { functionCall, result } of toolResults) {
+          const resultMessage: ChatMessage = {
+            role: Role.Function,
+            content: JSON.stringify(result),
+            name: functionCall.name,
+            toolCallId: functionCall.id
           };
-          this.chatHistory.addMessage(chatId, finalMessage);
-
-          // Enqueue embeddings for assistant direct response
-          try {
-            const userId = (wsServer as any).getUserIdForChat?.(chatId) as string | undefined;
-            if (userId && this.embeddingQueue) {
-              this.embeddingQueue.enqueue({
-                userId,
-                chatId,
-                messageId: `assistant_${Date.now()}`,
-                role: 'assistant',
-                content: intentAnalysis,
-                createdAt: new Date().toISOString(),
-              });
-              console.log(`[RAG] Enqueued assistant embedding chatId=${chatId}`);
-            }
-          } catch {}
+          conversation.push(resultMessage);
+          await this.chatHistory.addMessage(chatId, resultMessage);
+          this.sendFunctionResultMessage(chatId, functionCall.name, result, wsServer);
         }
+
+        this.sendIterationMessage(chatId, MessageType.IterationEnd, { iteration, toolCalls: toolNames, final: false, llm: turn.llm }, wsServer);
       }
     } catch (error) {
+      // Generation was stopped by the user - nothing to acknowledge
+      if (controller.signal.aborted) {
+        console.log(`[AI] Generation stopped chatId=${chatId}`);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Every provider in the chain already failed - asking them again to acknowledge it won't help
+      if (error instanceof LLMChainExhaustedError) {
+        this.sendErrorMessage(chatId, 'The AI service is temporarily unavailable. Please try again in a moment.', wsServer);
+        return;
+      }
       
       // Try to have AI acknowledge the error gracefully
       try {
@@ -579,38 +628,60 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
           content: `I encountered an error while processing your request: ${errorMessage}. Please acknowledge this error and explain to the user what happened.`
         };
         
-        // Get conversation history
-        const messageHistory = this.chatHistory.getHistory(chatId);
+        // Get conversation history (within the context budget)
+        const context = await this.contextBuilder.build(chatId, { system: this.SYSTEM_PROMPT });
         const conversation: ChatMessage[] = [
-          { role: Role.System, content: this.SYSTEM_PROMPT },
-          ...messageHistory,
+          ...context.messages,
           errorAckMessage
         ];
 
-        const errorResponse = await this.openai.call(
+        const errorAck = await this.streamModelResponse(
+          chatId,
           conversation,
-          OpenAIModel.GPT35Turbo,
-          false // No functions needed for error acknowledgment
+          false, // No functions needed for error acknowledgment
+          wsServer
         );
 
-        const errorCandidate = errorResponse.candidates?.[0];
-        if (errorCandidate?.content?.parts) {
-          for (const part of errorCandidate.content.parts) {
-            if (part.text && part.text.trim()) {
-              await this.streamTextResponse(chatId, part.text, wsServer);
-              const errorAckFinal: ChatMessage = {
-                role: Role.Assistant,
-                content: part.text
-              };
-              this.chatHistory.addMessage(chatId, errorAckFinal);
-            }
-          }
+        if (errorAck.text.trim()) {
+          const errorAckFinal: ChatMessage = {
+            role: Role.Assistant,
+            content: errorAck.text
+          };
+          await this.chatHistory.addMessage(chatId, errorAckFinal);
         }
       } catch (ackError) {
         // If even the error acknowledgment fails, just send a simple error message
         this.sendErrorMessage(chatId, `Error: ${errorMessage}`, wsServer);
       }
+    } finally {
+      if (this.abortControllers.get(chatId) === controller) {
+        this.abortControllers.delete(chatId);
+      }
+    }
+  }
+
+  /**
+   * Override the LLM provider and/or model for a single chat.
+   * Returns false (and keeps the current selection) if the provider is not configured.
+   */
+  setChatLLM(chatId: string, selection: LLMSelectionData): boolean {
+    const current = this.chatLLM.get(chatId) ?? this.defaultLLM;
+    const providerName = selection.provider ?? current.provider;
+    const provider = isLLMProviderName(providerName) ? this.providers.get(providerName) : undefined;
+    if (!provider) {
+      console.warn(`[LLM] Ignoring unavailable provider=${providerName} for chatId=${chatId}`);
+      return false;
     }
+
+    const model = selection.model
+      || (provider.name === current.provider ? current.model : provider.defaultModel);
+    this.chatLLM.set(chatId, { provider: provider.name, model });
+    console.log(`[LLM] chatId=${chatId} now using provider=${provider.name} model=${model}`);
+    return true;
+  }
+
+  private resolveLLM(chatId: string): LLMSelection {
+    return this.chatLLM.get(chatId) ?? this.defaultLLM;
   }
 
   cancel(chatId: string) {
@@ -619,20 +690,36 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
       controller.abort();
       this.abortControllers.delete(chatId);
     }
+    this.frontendFunctions.cancelChat(chatId);
+  }
+
+  /**
+   * Deliver a client's FunctionExecuteResponse to the tool call waiting on it
+   */
+  handleFunctionResponse(response: FunctionExecuteResponse, clientRooms: Set<string>): boolean {
+    return this.frontendFunctions.resolve(response, clientRooms);
   }
 
   /**
    * Get chat history stats (for debugging)
    */
-  getHistoryStats() {
+  async getHistoryStats() {
     return this.chatHistory.getStats();
   }
 
+  /**
+   * Get a page of stored messages for a chat, oldest first
+   */
+  async getChatMessages(chatId: string, offset?: number, limit?: number) {
+    return this.chatHistory.getMessages(chatId, offset, limit);
+  }
+
   /**
    * Clear history for a specific chat
    */
-  clearChatHistory(chatId: string) {
-    this.chatHistory.clearHistory(chatId);
+  async clearChatHistory(chatId: string) {
+    await this.chatHistory.clearHistory(chatId);
+    this.chatLLM.delete(chatId);
   }
 
   private async executeFunction(
@@ -657,7 +744,8 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
       }>;
       totalItems: number;
       totalPrice: number;
-    }
+    },
+    abortSignal?: AbortSignal
   ): Promise<unknown> {
     switch (functionCall.name) {
       case AvailableFunction.BrowsePublishers: {
@@ -828,6 +916,11 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
       }
 
       default:
+        // Cart edits, orders etc. operate on client state - run them in the user's browser
+        if (getFunctionLocation(functionCall.name) === FunctionExecutionLocation.Frontend) {
+          return this.frontendFunctions.execute(chatId, functionCall, wsServer, abortSignal);
+        }
+
         return {
           error: true,
           function: functionCall.name,
@@ -901,6 +994,32 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
     });
   }
 
+  private sendIterationMessage(
+    chatId: string,
+    type: MessageType.IterationStart | MessageType.IterationEnd,
+    payload: Record<string, unknown>,
+    wsServer: WebSocketServer
+  ): void {
+    wsServer.broadcastToRoom(chatId, {
+      type,
+      payload,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  private sendLLMAttemptMessage(chatId: string, attempt: LLMAttempt, wsServer: WebSocketServer): void {
+    wsServer.broadcastToRoom(chatId, {
+      type: MessageType.SystemMessage,
+      payload: {
+        kind: 'llm_attempt',
+        ...attempt
+      },
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
   private sendErrorMessage(chatId: string, error: string, wsServer: WebSocketServer): void {
     wsServer.broadcastToRoom(chatId, {
       type: MessageType.Error,
@@ -910,40 +1029,122 @@ Remember: You are helpful, intelligent, and confident. When you have the informa
     });
   }
 
-  private async streamTextResponse(
+  /**
+   * Stream a model turn to the room as it is generated.
+   * Text deltas are forwarded as TextStream frames; tool call fragments are
+   * assembled into complete function calls once the stream has finished.
+   * If the signal is aborted mid-stream, the partial text is closed off with
+   * a stopped TextStreamEnd and no function calls are returned.
+   */
+  private async streamModelResponse(
     chatId: string,
-    text: string,
-    wsServer: WebSocketServer
-  ): Promise<void> {
-    // For now, send the full text as streaming isn't implemented in Gemini API yet
-    // In the future, this can be enhanced with actual streaming
-    const words = text.split(' ');
-    const chunkSize = 5; // Stream 5 words at a time
+    conversation: ChatMessage[],
+    useFunctions: boolean,
+    wsServer: WebSocketServer,
+    abortSignal?: AbortSignal
+  ): Promise<{ text: string; functionCalls: StreamedFunctionCall[]; aborted: boolean; llm?: { provider: string; model: string; attempts: number } }> {
+    let text = '';
+    let aborted = false;
+    const attempts: LLMAttempt[] = [];
+    const toolCalls = new Map<number, { id?: string; name: string; arguments: string }>();
 
-    for (let i = 0; i < words.length; i += chunkSize) {
-      const chunk = words.slice(i, i + chunkSize).join(' ') + (i + chunkSize < words.length ? ' ' : '');
-      
-      wsServer.broadcastToRoom(chatId, {
-        type: MessageType.TextStream,
-        payload: {
-          text: chunk,
-          isComplete: i + chunkSize >= words.length
+    try {
+      const events = this.llm.stream(this.resolveLLM(chatId), conversation, {
+        useFunctions,
+        additionalFunctions: FRONTEND_ONLY_FUNCTIONS,
+        abortSignal,
+        onAttempt: attempt => {
+          attempts.push(attempt);
+          // Let the client know a provider is being retried or replaced
+          if (attempt.outcome !== 'success') {
+            this.sendLLMAttemptMessage(chatId, attempt, wsServer);
+          }
         },
-        timestamp: Date.now(),
-        message_id: `stream_${Date.now()}`
       });
+      for await (const event of events) {
+        if (abortSignal?.aborted) {
+          aborted = true;
+          break;
+        }
 
-      // Small delay between chunks for streaming effect
-      await new Promise(resolve => setTimeout(resolve, 50));
+        if (event.type === 'text') {
+          text += event.text;
+          wsServer.broadcastToRoom(chatId, {
+            type: MessageType.TextStream,
+            payload: {
+              text: event.text,
+              isComplete: false
+            },
+            timestamp: Date.now(),
+            message_id: `stream_${Date.now()}`
+          });
+        } else if (event.type === 'tool_call') {
+          const call = toolCalls.get(event.index) ?? { name: '', arguments: '' };
+          if (event.id) call.id = event.id;
+          if (event.name) call.name = event.name;
+          call.arguments += event.argumentsDelta;
+          toolCalls.set(event.index, call);
+        }
+      }
+    } catch (error) {
+      // Aborting the request surfaces as a cancelled stream; anything else is a real failure
+      if (!abortSignal?.aborted) {
+        throw error;
+      }
+      aborted = true;
     }
 
     // Send stream end notification
-    wsServer.broadcastToRoom(chatId, {
-      type: MessageType.TextStreamEnd,
-      payload: { text },
-      timestamp: Date.now(),
-      message_id: `stream_end_${Date.now()}`
-    });
+    if (text) {
+      wsServer.broadcastToRoom(chatId, {
+        type: MessageType.TextStreamEnd,
+        payload: aborted ? { text, stopped: true } : { text },
+        timestamp: Date.now(),
+        message_id: `stream_end_${Date.now()}`
+      });
+    }
+
+    const functionCalls: StreamedFunctionCall[] = aborted
+      ? []
+      : Array.from(toolCalls.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([index, call]) => {
+            const { args, error } = parseToolArguments(call.arguments);
+            if (error) {
+              console.warn(`[AI] Invalid tool call arguments chatId=${chatId} function=${call.name}: ${error} raw=${safeArgs(call.arguments)}`);
+            }
+            return {
+              id: call.id ?? `call_${Date.now()}_${index}`,
+              name: call.name,
+              args,
+              ...(error ? { argumentsError: error } : {})
+            };
+          });
+
+    // Which provider answered and after how many attempts in total
+    const answered = attempts.find(attempt => attempt.outcome === 'success');
+    const llm = answered
+      ? { provider: answered.provider, model: answered.model, attempts: attempts.length }
+      : undefined;
+
+    return { text, functionCalls, aborted, llm };
+  }
+
+  private enqueueAssistantEmbedding(chatId: string, content: string, wsServer: WebSocketServer): void {
+    try {
+      const userId = (wsServer as any).getUserIdForChat?.(chatId) as string | undefined;
+      if (userId && this.embeddingQueue) {
+        this.embeddingQueue.enqueue({
+          userId,
+          chatId,
+          messageId: `assistant_${Date.now()}`,
+          role: 'assistant',
+          content,
+          createdAt: new Date().toISOString(),
+        });
+        console.log(`[RAG] Enqueued assistant embedding chatId=${chatId}`);
+      }
+    } catch {}
   }
 
   /**
@@ -1,38 +1,53 @@
-import axios from 'axios';
-import { ChatMessage } from '../types/message.js';
+import { ChatMessage, Role } from '../types/message.js';
+import { LLMSelection } from '../llm/provider.js';
+import { LLMFailoverChain } from '../llm/failover.js';
 
 export class ChatSummarizer {
-  private openAiApiKey: string;
-  private client: ReturnType<typeof axios.create>;
+  private llm: LLMFailoverChain;
+  private resolveLLM: (chatId: string) => LLMSelection;
 
-  constructor(openAiApiKey: string) {
-    this.openAiApiKey = openAiApiKey;
-    this.client = axios.create({
-      baseURL: 'https://api.openai.com/v1',
-      headers: {
-        'Authorization': `Bearer ${this.openAiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000,
-    });
+  /**
+   * Summaries are written by the provider and model selected for the chat, through the same
+   * failover chain as its answers.
+   */
+  constructor(llm: LLMFailoverChain, resolveLLM: (chatId: string) => LLMSelection) {
+    this.llm = llm;
+    this.resolveLLM = resolveLLM;
   }
 
   /**
-   * Summarize a list of messages using OpenAI mini model
+   * Summarize a list of messages from a chat.
+   * If previousSummary is given, it is folded into the new summary (running summary).
+   * Throws when the model fails or returns nothing, so callers never store a placeholder.
    */
-  async summarizeMessages(messages: ChatMessage[]): Promise<string> {
+  async summarizeMessages(chatId: string, messages: ChatMessage[], previousSummary?: string): Promise<string> {
     if (messages.length === 0) {
-      return '';
+      return previousSummary ?? '';
     }
 
     // Format messages for summarization
     const conversationText = messages
       .map((msg) => {
+        if (msg.role === 'function') {
+          // Tool results can be large JSON payloads - the gist is enough for a summary
+          const result = msg.content.length > 1000 ? `${msg.content.slice(0, 1000)}…` : msg.content;
+          return `Tool result (${msg.name ?? 'unknown'}): ${result}`;
+        }
         const role = msg.role === 'user' ? 'User' : 'Assistant';
-        return `${role}: ${msg.content}`;
+        const toolCalls = msg.toolCalls?.length
+          ? ` [called ${msg.toolCalls.map(call => call.name).join(', ')}]`
+          : '';
+        return `${role}: ${msg.content}${toolCalls}`;
       })
       .join('\n\n');
 
+    const earlierSummary = previousSummary
+      ? `Summary of the conversation before this point (merge it into the new summary):
+${previousSummary}
+
+`
+      : '';
+
     const prompt = `Summarize the following conversation concisely, preserving important details, decisions, context, and key information that would be useful for continuing the conversation later. Focus on:
 - Main topics discussed
 - Important decisions or preferences mentioned
@@ -42,37 +57,32 @@ export class ChatSummarizer {
 
 Keep the summary concise but informative (2-4 sentences if possible, up to 200 words).
 
-Conversation:
+${earlierSummary}Conversation:
 ${conversationText}
 
 Summary:`;
 
     try {
-      const response = await this.client.post(
-        '/chat/completions',
+      const response = await this.llm.call(this.resolveLLM(chatId), [
         {
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a helpful assistant that creates concise summaries of conversations.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 300,
-        }
-      );
+          role: Role.System,
+          content: 'You are a helpful assistant that creates concise summaries of conversations.',
+        },
+        {
+          role: Role.User,
+          content: prompt,
+        },
+      ]);
 
-      const summary = response.data.choices[0]?.message?.content?.trim() || '';
+      const parts = response.candidates[0]?.content.parts ?? [];
+      const summary = parts.map(part => part.text ?? '').join('').trim();
+      if (!summary) {
+        throw new Error('Summarizer returned an empty summary');
+      }
       return summary;
     } catch (error) {
       console.error('[Summarizer] Error summarizing messages:', error);
-      // Fallback: create a simple summary
-      return `Previous conversation covered ${messages.length} messages about various topics.`;
+      throw error;
     }
   }
 
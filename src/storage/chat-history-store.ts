@@ -0,0 +1,184 @@
+import { ChatMessage } from '../types/message.js';
+
+export interface ChatHistoryReadOptions {
+  offset?: number; // Number of oldest messages to skip
+  limit?: number; // Maximum number of messages to return (default: all)
+}
+
+/**
+ * Running summary of the oldest messages of a chat.
+ * messageCount is how many messages (from the start) the summary replaces.
+ */
+export interface ChatSummary {
+  text: string;
+  messageCount: number;
+  updatedAt: number;
+}
+
+export interface ChatHistoryStats {
+  totalChats: number;
+  totalMessages: number;
+}
+
+/**
+ * Storage backend for chat conversations.
+ * Messages are append-only and returned oldest first.
+ */
+export interface ChatHistoryStore {
+  append(chatId: string, message: ChatMessage): Promise<void>;
+  read(chatId: string, options?: ChatHistoryReadOptions): Promise<ChatMessage[]>;
+  count(chatId: string): Promise<number>;
+  delete(chatId: string): Promise<void>; // Also deletes the chat's summary, but not its owner
+  getSummary(chatId: string): Promise<ChatSummary | null>;
+  setSummary(chatId: string, summary: ChatSummary): Promise<void>;
+  /**
+   * Make userId the chat's owner unless it already has one. Returns the owner either way.
+   */
+  claimOwner(chatId: string, userId: string): Promise<string>;
+  listChatIds(): Promise<string[]>;
+  getStats(): Promise<ChatHistoryStats>;
+  close(): Promise<void>;
+}
+
+export enum ChatHistoryStoreKind {
+  Memory = "memory",
+  Sqlite = "sqlite",
+  Postgres = "postgres",
+}
+
+export function isChatHistoryStoreKind(value: unknown): value is ChatHistoryStoreKind {
+  return Object.values(ChatHistoryStoreKind).includes(value as ChatHistoryStoreKind);
+}
+
+/**
+ * Row shape shared by the SQL-backed stores
+ */
+export interface ChatMessageRow {
+  role: string;
+  content: string;
+  name: string | null;
+  tool_calls: string | null;
+  tool_call_id: string | null;
+}
+
+export function toChatMessageRow(message: ChatMessage): ChatMessageRow {
+  return {
+    role: message.role,
+    content: message.content,
+    name: message.name ?? null,
+    tool_calls: message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+    tool_call_id: message.toolCallId ?? null,
+  };
+}
+
+export function fromChatMessageRow(row: ChatMessageRow): ChatMessage {
+  const message: ChatMessage = {
+    role: row.role as ChatMessage['role'],
+    content: row.content,
+  };
+  if (row.name) message.name = row.name;
+  if (row.tool_calls) message.toolCalls = JSON.parse(row.tool_calls);
+  if (row.tool_call_id) message.toolCallId = row.tool_call_id;
+  return message;
+}
+
+interface MemoryChatHistory {
+  messages: ChatMessage[];
+  summary: ChatSummary | null;
+  lastActivity: number;
+}
+
+/**
+ * In-memory store - conversations are lost on restart and dropped after a period of inactivity.
+ */
+export class InMemoryChatHistoryStore implements ChatHistoryStore {
+  private histories: Map<string, MemoryChatHistory> = new Map();
+  private owners: Map<string, string> = new Map(); // Kept when an inactive chat's history is dropped
+  private cleanupTimer: NodeJS.Timeout;
+  private readonly ttlMs: number;
+
+  // Auto-cleanup after 1 hour of inactivity by default
+  constructor(ttlMs: number = 1000 * 60 * 60) {
+    this.ttlMs = ttlMs;
+    this.cleanupTimer = setInterval(() => this.cleanup(), this.ttlMs);
+    this.cleanupTimer.unref();
+  }
+
+  async append(chatId: string, message: ChatMessage): Promise<void> {
+    const history = this.getOrCreate(chatId);
+    history.messages.push(message);
+    history.lastActivity = Date.now();
+  }
+
+  async read(chatId: string, options: ChatHistoryReadOptions = {}): Promise<ChatMessage[]> {
+    const history = this.histories.get(chatId);
+    if (!history) {
+      return [];
+    }
+    const offset = options.offset ?? 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+    return history.messages.slice(offset, end); // Return copy
+  }
+
+  async count(chatId: string): Promise<number> {
+    return this.histories.get(chatId)?.messages.length ?? 0;
+  }
+
+  async delete(chatId: string): Promise<void> {
+    this.histories.delete(chatId);
+  }
+
+  async getSummary(chatId: string): Promise<ChatSummary | null> {
+    return this.histories.get(chatId)?.summary ?? null;
+  }
+
+  async setSummary(chatId: string, summary: ChatSummary): Promise<void> {
+    const history = this.getOrCreate(chatId);
+    history.summary = summary;
+    history.lastActivity = Date.now();
+  }
+
+  async claimOwner(chatId: string, userId: string): Promise<string> {
+    const owner = this.owners.get(chatId);
+    if (owner) return owner;
+    this.owners.set(chatId, userId);
+    return userId;
+  }
+
+  async listChatIds(): Promise<string[]> {
+    return Array.from(this.histories.keys());
+  }
+
+  async getStats(): Promise<ChatHistoryStats> {
+    let totalMessages = 0;
+    for (const history of this.histories.values()) {
+      totalMessages += history.messages.length;
+    }
+    return { totalChats: this.histories.size, totalMessages };
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private getOrCreate(chatId: string): MemoryChatHistory {
+    let history = this.histories.get(chatId);
+    if (!history) {
+      history = { messages: [], summary: null, lastActivity: Date.now() };
+      this.histories.set(chatId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Cleanup chats that have been inactive for longer than the TTL
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [chatId, history] of this.histories.entries()) {
+      if (now - history.lastActivity > this.ttlMs) {
+        this.histories.delete(chatId);
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Config } from '../config.js';
+import { ChatHistoryStore, ChatHistoryStoreKind, InMemoryChatHistoryStore } from './chat-history-store.js';
+import { SqliteChatHistoryStore } from './sqlite-chat-history-store.js';
+import { PostgresChatHistoryStore } from './postgres-chat-history-store.js';
+import { InMemoryNotificationStore, NotificationStore, NotificationStoreKind } from './notification-store.js';
+import { SqliteNotificationStore } from './sqlite-notification-store.js';
+import { InMemoryScheduleStore, ScheduleStore } from './schedule-store.js';
+import { SqliteScheduleStore } from './sqlite-schedule-store.js';
+import { InMemoryPreferenceStore, PreferenceStore } from './preference-store.js';
+import { SqlitePreferenceStore } from './sqlite-preference-store.js';
+
+export * from './chat-history-store.js';
+export { SqliteChatHistoryStore } from './sqlite-chat-history-store.js';
+export { PostgresChatHistoryStore } from './postgres-chat-history-store.js';
+export * from './notification-store.js';
+export { SqliteNotificationStore } from './sqlite-notification-store.js';
+export * from './schedule-store.js';
+export { SqliteScheduleStore } from './sqlite-schedule-store.js';
+export * from './preference-store.js';
+export { SqlitePreferenceStore } from './sqlite-preference-store.js';
+
+/**
+ * Create the chat history store selected in Config
+ */
+export async function createChatHistoryStore(config: Config['chatHistory']): Promise<ChatHistoryStore> {
+  switch (config.store) {
+    case ChatHistoryStoreKind.Sqlite:
+      console.log(`[ChatHistory] Using SQLite store at ${config.sqlitePath}`);
+      return SqliteChatHistoryStore.open(config.sqlitePath);
+    case ChatHistoryStoreKind.Postgres:
+      console.log('[ChatHistory] Using Postgres store');
+      return PostgresChatHistoryStore.connect(config.databaseUrl!);
+    case ChatHistoryStoreKind.Memory:
+    default:
+      return new InMemoryChatHistoryStore();
+  }
+}
+
+/**
+ * Create the notification store selected in Config
+ */
+export async function createNotificationStore(config: Config['notifications']): Promise<NotificationStore> {
+  switch (config.store) {
+    case NotificationStoreKind.Sqlite:
+      console.log(`[Notification] Using SQLite store at ${config.sqlitePath}`);
+      return SqliteNotificationStore.open(config.sqlitePath, config.retentionMs);
+    case NotificationStoreKind.Memory:
+    default:
+      return new InMemoryNotificationStore(config.retentionMs);
+  }
+}
+
+/**
+ * Create the store for scheduled notifications - the same kind and file as the notification store
+ */
+export async function createScheduleStore(config: Config['notifications']): Promise<ScheduleStore> {
+  switch (config.store) {
+    case NotificationStoreKind.Sqlite:
+      return SqliteScheduleStore.open(config.sqlitePath);
+    case NotificationStoreKind.Memory:
+    default:
+      return new InMemoryScheduleStore();
+  }
+}
+
+/**
+ * Create the store for users' notification preferences - the same kind and file as the notification store
+ */
+export async function createPreferenceStore(config: Config['notifications']): Promise<PreferenceStore> {
+  switch (config.store) {
+    case NotificationStoreKind.Sqlite:
+      return SqlitePreferenceStore.open(config.sqlitePath);
+    case NotificationStoreKind.Memory:
+    default:
+      return new InMemoryPreferenceStore();
+  }
+}
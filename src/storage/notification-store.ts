@@ -0,0 +1,241 @@
+import type { NotificationData } from '../notifications/types.js';
+import { AudienceProfile, matchesAudience } from '../notifications/audience.js';
+
+export type NotificationReceiptKind = 'delivered' | 'read' | 'dismissed';
+
+/**
+ * What one user has done with one notification (times are ms since epoch)
+ */
+export interface NotificationReceipt {
+  notificationId: string;
+  userId: string;
+  deliveredAt?: number;
+  readAt?: number;
+  dismissedAt?: number;
+}
+
+/**
+ * Filters and page for a user's notification history
+ */
+export interface NotificationListQuery {
+  type?: string; // Matches typeId or type.name
+  priority?: NotificationData['priority'];
+  read?: boolean; // Only read (true) or only unread (false)
+  offset: number;
+  limit: number;
+}
+
+export interface NotificationListItem {
+  notification: NotificationData;
+  deliveredAt?: number;
+  readAt?: number;
+}
+
+export interface NotificationPage {
+  items: NotificationListItem[]; // Newest first
+  total: number; // Matching notifications across all pages
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Storage backend for notifications and per-user receipts.
+ * Listings and counts only cover live notifications addressed to the user that they haven't dismissed.
+ * Notifications are kept for the store's retention period, then dropped with their receipts.
+ */
+export interface NotificationStore {
+  save(notification: NotificationData): Promise<void>; // Replaces a stored notification with the same id
+  get(notificationId: string): Promise<NotificationData | null>;
+  /**
+   * Live notifications addressed to the user that were never delivered to (or dismissed by) them, oldest first.
+   * Ones `accept` turns down are skipped before the limit applies, so they can't fill the page.
+   */
+  listUndelivered(
+    profile: AudienceProfile,
+    limit: number,
+    accept?: (notification: NotificationData) => boolean
+  ): Promise<NotificationData[]>;
+  recordReceipt(userId: string, notificationId: string, kind: NotificationReceiptKind): Promise<void>;
+  getReceipt(userId: string, notificationId: string): Promise<NotificationReceipt | null>;
+  listForUser(profile: AudienceProfile, query: NotificationListQuery): Promise<NotificationPage>;
+  countUnread(profile: AudienceProfile): Promise<number>;
+  markAllRead(profile: AudienceProfile): Promise<number>; // Returns how many were newly marked
+  close(): Promise<void>;
+}
+
+export enum NotificationStoreKind {
+  Memory = "memory",
+  Sqlite = "sqlite",
+}
+
+export function isNotificationStoreKind(value: unknown): value is NotificationStoreKind {
+  return Object.values(NotificationStoreKind).includes(value as NotificationStoreKind);
+}
+
+export function expiresAtMs(notification: NotificationData): number | null {
+  if (!notification.expiresAt) return null;
+  const time = Date.parse(notification.expiresAt);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Active and not expired
+ */
+export function isNotificationLive(notification: NotificationData, now: number = Date.now()): boolean {
+  if (notification.isActive === false) return false;
+  const expiresAt = expiresAtMs(notification);
+  return expiresAt === null || expiresAt > now;
+}
+
+/**
+ * Listed in targetUserIds, or matched by the audience rules (or global when there are none)
+ */
+export function isAddressedTo(notification: NotificationData, profile: AudienceProfile): boolean {
+  if (Array.isArray(notification.targetUserIds) && notification.targetUserIds.includes(profile.userId)) {
+    return true;
+  }
+  if (notification.audience) {
+    return matchesAudience(notification.audience, profile);
+  }
+  return notification.isGlobal;
+}
+
+function matchesListQuery(
+  notification: NotificationData,
+  receipt: NotificationReceipt | undefined,
+  query: NotificationListQuery
+): boolean {
+  if (query.type !== undefined && notification.typeId !== query.type && notification.type?.name !== query.type) return false;
+  if (query.priority !== undefined && notification.priority !== query.priority) return false;
+  if (query.read !== undefined && Boolean(receipt?.readAt) !== query.read) return false;
+  return true;
+}
+
+interface StoredNotification {
+  notification: NotificationData;
+  storedAt: number;
+}
+
+/**
+ * In-memory store - notifications and receipts are lost on restart.
+ */
+export class InMemoryNotificationStore implements NotificationStore {
+  private notifications: Map<string, StoredNotification> = new Map(); // Insertion order = oldest first
+  private receipts: Map<string, Map<string, NotificationReceipt>> = new Map(); // notificationId -> userId -> receipt
+  private cleanupTimer: NodeJS.Timeout;
+  private readonly retentionMs: number;
+
+  // Keep notifications for 7 days by default
+  constructor(retentionMs: number = 7 * 24 * 60 * 60 * 1000) {
+    this.retentionMs = retentionMs;
+    this.cleanupTimer = setInterval(() => this.cleanup(), Math.min(this.retentionMs, 60 * 60 * 1000));
+    this.cleanupTimer.unref();
+  }
+
+  async save(notification: NotificationData): Promise<void> {
+    this.notifications.delete(notification.id);
+    this.notifications.set(notification.id, { notification, storedAt: Date.now() });
+  }
+
+  async get(notificationId: string): Promise<NotificationData | null> {
+    return this.notifications.get(notificationId)?.notification ?? null;
+  }
+
+  async listUndelivered(
+    profile: AudienceProfile,
+    limit: number,
+    accept?: (notification: NotificationData) => boolean
+  ): Promise<NotificationData[]> {
+    const now = Date.now();
+    const result: NotificationData[] = [];
+    for (const { notification, storedAt } of this.notifications.values()) {
+      if (result.length >= limit) break;
+      if (now - storedAt > this.retentionMs) continue;
+      if (!isNotificationLive(notification, now) || !isAddressedTo(notification, profile)) continue;
+      const receipt = this.receipts.get(notification.id)?.get(profile.userId);
+      if (receipt?.deliveredAt || receipt?.dismissedAt) continue;
+      if (accept && !accept(notification)) continue;
+      result.push(notification);
+    }
+    return result;
+  }
+
+  async recordReceipt(userId: string, notificationId: string, kind: NotificationReceiptKind): Promise<void> {
+    let byUser = this.receipts.get(notificationId);
+    if (!byUser) {
+      byUser = new Map();
+      this.receipts.set(notificationId, byUser);
+    }
+    const receipt = byUser.get(userId) ?? { notificationId, userId };
+    const now = Date.now();
+    // First time wins - later repeats don't move the timestamp
+    if (kind === 'delivered') receipt.deliveredAt ??= now;
+    if (kind === 'read') receipt.readAt ??= now;
+    if (kind === 'dismissed') receipt.dismissedAt ??= now;
+    byUser.set(userId, receipt);
+  }
+
+  async getReceipt(userId: string, notificationId: string): Promise<NotificationReceipt | null> {
+    return this.receipts.get(notificationId)?.get(userId) ?? null;
+  }
+
+  async listForUser(profile: AudienceProfile, query: NotificationListQuery): Promise<NotificationPage> {
+    const matching = this.visibleTo(profile)
+      .filter(({ notification, receipt }) => matchesListQuery(notification, receipt, query))
+      .reverse();
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit).map(({ notification, receipt }) => ({
+        notification,
+        deliveredAt: receipt?.deliveredAt,
+        readAt: receipt?.readAt,
+      })),
+      total: matching.length,
+      offset: query.offset,
+      limit: query.limit,
+    };
+  }
+
+  async countUnread(profile: AudienceProfile): Promise<number> {
+    return this.visibleTo(profile).filter(({ receipt }) => !receipt?.readAt).length;
+  }
+
+  async markAllRead(profile: AudienceProfile): Promise<number> {
+    const unread = this.visibleTo(profile).filter(({ receipt }) => !receipt?.readAt);
+    for (const { notification } of unread) {
+      await this.recordReceipt(profile.userId, notification.id, 'read');
+    }
+    return unread.length;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Live notifications addressed to the user and not dismissed by them, oldest first
+   */
+  private visibleTo(profile: AudienceProfile): Array<{ notification: NotificationData; receipt?: NotificationReceipt }> {
+    const now = Date.now();
+    const result: Array<{ notification: NotificationData; receipt?: NotificationReceipt }> = [];
+    for (const { notification, storedAt } of this.notifications.values()) {
+      if (now - storedAt > this.retentionMs) continue;
+      if (!isNotificationLive(notification, now) || !isAddressedTo(notification, profile)) continue;
+      const receipt = this.receipts.get(notification.id)?.get(profile.userId);
+      if (receipt?.dismissedAt) continue;
+      result.push({ notification, receipt });
+    }
+    return result;
+  }
+
+  /**
+   * Drop notifications (and their receipts) older than the retention period
+   */
+  private cleanup(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, stored] of this.notifications.entries()) {
+      if (stored.storedAt >= cutoff) break; // The rest are newer
+      this.notifications.delete(id);
+      this.receipts.delete(id);
+    }
+  }
+}
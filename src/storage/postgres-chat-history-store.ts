@@ -0,0 +1,148 @@
+import type { Pool } from 'pg';
+import { ChatMessage } from '../types/message.js';
+import {
+  ChatHistoryReadOptions,
+  ChatHistoryStats,
+  ChatHistoryStore,
+  ChatMessageRow,
+  ChatSummary,
+  fromChatMessageRow,
+  toChatMessageRow,
+} from './chat-history-store.js';
+
+/**
+ * Postgres (or wire-compatible, e.g. CockroachDB) store - shared by every server instance,
+ * so a conversation can be resumed on whichever replica the user reconnects to.
+ */
+export class PostgresChatHistoryStore implements ChatHistoryStore {
+  private pool: Pool;
+
+  private constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Connect and create the schema if needed. The driver is loaded lazily so deployments
+   * using another store don't need it.
+   */
+  static async connect(connectionString: string): Promise<PostgresChatHistoryStore> {
+    const { default: pg } = await import('pg');
+    const pool = new pg.Pool({ connectionString });
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id BIGSERIAL PRIMARY KEY,
+        chat_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        name TEXT,
+        tool_calls TEXT,
+        tool_call_id TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_chat_messages_chat_id ON chat_messages (chat_id, id)');
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS chat_summaries (
+        chat_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        updated_at BIGINT NOT NULL
+      )
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS chat_owners (
+        chat_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    return new PostgresChatHistoryStore(pool);
+  }
+
+  async append(chatId: string, message: ChatMessage): Promise<void> {
+    const row = toChatMessageRow(message);
+    await this.pool.query(
+      `INSERT INTO chat_messages (chat_id, role, content, name, tool_calls, tool_call_id)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [chatId, row.role, row.content, row.name, row.tool_calls, row.tool_call_id]
+    );
+  }
+
+  async read(chatId: string, options: ChatHistoryReadOptions = {}): Promise<ChatMessage[]> {
+    const { rows } = await this.pool.query<ChatMessageRow>(
+      `SELECT role, content, name, tool_calls, tool_call_id
+       FROM chat_messages
+       WHERE chat_id = $1
+       ORDER BY id
+       LIMIT $2 OFFSET $3`,
+      [chatId, options.limit ?? null, options.offset ?? 0]
+    );
+    return rows.map(fromChatMessageRow);
+  }
+
+  async count(chatId: string): Promise<number> {
+    const { rows } = await this.pool.query<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM chat_messages WHERE chat_id = $1',
+      [chatId]
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  async delete(chatId: string): Promise<void> {
+    await this.pool.query('DELETE FROM chat_messages WHERE chat_id = $1', [chatId]);
+    await this.pool.query('DELETE FROM chat_summaries WHERE chat_id = $1', [chatId]);
+  }
+
+  async getSummary(chatId: string): Promise<ChatSummary | null> {
+    const { rows } = await this.pool.query<{ summary: string; message_count: number; updated_at: string }>(
+      'SELECT summary, message_count, updated_at FROM chat_summaries WHERE chat_id = $1',
+      [chatId]
+    );
+    const row = rows[0];
+    return row ? { text: row.summary, messageCount: row.message_count, updatedAt: Number(row.updated_at) } : null;
+  }
+
+  async setSummary(chatId: string, summary: ChatSummary): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO chat_summaries (chat_id, summary, message_count, updated_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (chat_id) DO UPDATE SET
+         summary = EXCLUDED.summary,
+         message_count = EXCLUDED.message_count,
+         updated_at = EXCLUDED.updated_at`,
+      [chatId, summary.text, summary.messageCount, summary.updatedAt]
+    );
+  }
+
+  async claimOwner(chatId: string, userId: string): Promise<string> {
+    // Concurrent claims on different replicas: the first insert wins and everyone reads it back
+    await this.pool.query(
+      'INSERT INTO chat_owners (chat_id, user_id) VALUES ($1, $2) ON CONFLICT (chat_id) DO NOTHING',
+      [chatId, userId]
+    );
+    const { rows } = await this.pool.query<{ user_id: string }>(
+      'SELECT user_id FROM chat_owners WHERE chat_id = $1',
+      [chatId]
+    );
+    return rows[0].user_id;
+  }
+
+  async listChatIds(): Promise<string[]> {
+    const { rows } = await this.pool.query<{ chat_id: string }>('SELECT DISTINCT chat_id FROM chat_messages');
+    return rows.map(row => row.chat_id);
+  }
+
+  async getStats(): Promise<ChatHistoryStats> {
+    const { rows } = await this.pool.query<{ total_chats: string; total_messages: string }>(
+      'SELECT COUNT(DISTINCT chat_id) AS total_chats, COUNT(*) AS total_messages FROM chat_messages'
+    );
+    return {
+      totalChats: Number(rows[0]?.total_chats ?? 0),
+      totalMessages: Number(rows[0]?.total_messages ?? 0),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
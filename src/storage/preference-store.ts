@@ -0,0 +1,29 @@
+import type { NotificationPreferences } from '../notifications/preferences.js';
+
+/**
+ * Storage backend for per-user notification preferences
+ */
+export interface PreferenceStore {
+  get(userId: string): Promise<NotificationPreferences | null>; // null = never set
+  save(userId: string, preferences: NotificationPreferences): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory store - preferences are lost on restart.
+ */
+export class InMemoryPreferenceStore implements PreferenceStore {
+  private preferences: Map<string, NotificationPreferences> = new Map();
+
+  async get(userId: string): Promise<NotificationPreferences | null> {
+    return this.preferences.get(userId) ?? null;
+  }
+
+  async save(userId: string, preferences: NotificationPreferences): Promise<void> {
+    this.preferences.set(userId, preferences);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,73 @@
+import type { NotificationData } from '../notifications/types.js';
+
+/**
+ * A notification held back until sendAt, and sent again on its cron schedule if it has one
+ */
+export interface ScheduledNotification {
+  id: string;
+  notification: NotificationData;
+  sendAt: number; // Next run (ms since epoch)
+  cron?: string; // Recurs after each run when set
+  createdBy: string; // API key id or admin user id
+  createdAt: number;
+}
+
+/**
+ * Storage backend for pending notification schedules
+ */
+export interface ScheduleStore {
+  save(schedule: ScheduledNotification): Promise<void>;
+  get(id: string): Promise<ScheduledNotification | null>;
+  list(): Promise<ScheduledNotification[]>; // Soonest first
+  listDue(now: number, limit: number): Promise<ScheduledNotification[]>;
+  /**
+   * Move a due schedule on to nextSendAt (delete it when null), but only if its sendAt is still
+   * expectedSendAt. Returns false when another replica already took this run.
+   */
+  advance(id: string, expectedSendAt: number, nextSendAt: number | null): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory store - pending schedules are lost on restart.
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private schedules: Map<string, ScheduledNotification> = new Map();
+
+  async save(schedule: ScheduledNotification): Promise<void> {
+    this.schedules.set(schedule.id, { ...schedule });
+  }
+
+  async get(id: string): Promise<ScheduledNotification | null> {
+    const schedule = this.schedules.get(id);
+    return schedule ? { ...schedule } : null;
+  }
+
+  async list(): Promise<ScheduledNotification[]> {
+    return [...this.schedules.values()].sort((a, b) => a.sendAt - b.sendAt).map(schedule => ({ ...schedule }));
+  }
+
+  async listDue(now: number, limit: number): Promise<ScheduledNotification[]> {
+    return (await this.list()).filter(schedule => schedule.sendAt <= now).slice(0, limit);
+  }
+
+  async advance(id: string, expectedSendAt: number, nextSendAt: number | null): Promise<boolean> {
+    const schedule = this.schedules.get(id);
+    if (!schedule || schedule.sendAt !== expectedSendAt) return false;
+    if (nextSendAt === null) {
+      this.schedules.delete(id);
+    } else {
+      schedule.sendAt = nextSendAt;
+    }
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
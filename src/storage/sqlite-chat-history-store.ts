@@ -0,0 +1,144 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type Database from 'better-sqlite3';
+import { ChatMessage } from '../types/message.js';
+import {
+  ChatHistoryReadOptions,
+  ChatHistoryStats,
+  ChatHistoryStore,
+  ChatMessageRow,
+  ChatSummary,
+  fromChatMessageRow,
+  toChatMessageRow,
+} from './chat-history-store.js';
+
+/**
+ * SQLite file store - survives restarts of a single server instance.
+ * better-sqlite3 is synchronous; the async interface just wraps it.
+ */
+export class SqliteChatHistoryStore implements ChatHistoryStore {
+  private db: Database.Database;
+
+  private constructor(db: Database.Database) {
+    this.db = db;
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        name TEXT,
+        tool_calls TEXT,
+        tool_call_id TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_chat_id ON chat_messages (chat_id, id);
+      CREATE TABLE IF NOT EXISTS chat_summaries (
+        chat_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS chat_owners (
+        chat_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Open (or create) the database file. The driver is loaded lazily so deployments
+   * using another store don't need the native module.
+   */
+  static async open(filePath: string): Promise<SqliteChatHistoryStore> {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    mkdirSync(dirname(filePath), { recursive: true });
+    return new SqliteChatHistoryStore(new BetterSqlite3(filePath));
+  }
+
+  async append(chatId: string, message: ChatMessage): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO chat_messages (chat_id, role, content, name, tool_calls, tool_call_id, created_at)
+        VALUES (@chat_id, @role, @content, @name, @tool_calls, @tool_call_id, @created_at)
+      `)
+      .run({ chat_id: chatId, ...toChatMessageRow(message), created_at: Date.now() });
+  }
+
+  async read(chatId: string, options: ChatHistoryReadOptions = {}): Promise<ChatMessage[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT role, content, name, tool_calls, tool_call_id
+        FROM chat_messages
+        WHERE chat_id = ?
+        ORDER BY id
+        LIMIT ? OFFSET ?
+      `)
+      .all(chatId, options.limit ?? -1, options.offset ?? 0) as ChatMessageRow[];
+    return rows.map(fromChatMessageRow);
+  }
+
+  async count(chatId: string): Promise<number> {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM chat_messages WHERE chat_id = ?')
+      .get(chatId) as { count: number };
+    return row.count;
+  }
+
+  async delete(chatId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM chat_messages WHERE chat_id = ?').run(chatId);
+      this.db.prepare('DELETE FROM chat_summaries WHERE chat_id = ?').run(chatId);
+    })();
+  }
+
+  async getSummary(chatId: string): Promise<ChatSummary | null> {
+    const row = this.db
+      .prepare('SELECT summary, message_count, updated_at FROM chat_summaries WHERE chat_id = ?')
+      .get(chatId) as { summary: string; message_count: number; updated_at: number } | undefined;
+    return row ? { text: row.summary, messageCount: row.message_count, updatedAt: row.updated_at } : null;
+  }
+
+  async setSummary(chatId: string, summary: ChatSummary): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO chat_summaries (chat_id, summary, message_count, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (chat_id) DO UPDATE SET
+          summary = excluded.summary,
+          message_count = excluded.message_count,
+          updated_at = excluded.updated_at
+      `)
+      .run(chatId, summary.text, summary.messageCount, summary.updatedAt);
+  }
+
+  async claimOwner(chatId: string, userId: string): Promise<string> {
+    this.db
+      .prepare('INSERT INTO chat_owners (chat_id, user_id, created_at) VALUES (?, ?, ?) ON CONFLICT (chat_id) DO NOTHING')
+      .run(chatId, userId, Date.now());
+    const row = this.db
+      .prepare('SELECT user_id FROM chat_owners WHERE chat_id = ?')
+      .get(chatId) as { user_id: string };
+    return row.user_id;
+  }
+
+  async listChatIds(): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT DISTINCT chat_id FROM chat_messages')
+      .all() as Array<{ chat_id: string }>;
+    return rows.map(row => row.chat_id);
+  }
+
+  async getStats(): Promise<ChatHistoryStats> {
+    const row = this.db
+      .prepare('SELECT COUNT(DISTINCT chat_id) AS totalChats, COUNT(*) AS totalMessages FROM chat_messages')
+      .get() as ChatHistoryStats;
+    return row;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,290 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type Database from 'better-sqlite3';
+import type { NotificationData } from '../notifications/types.js';
+import type { AudienceProfile } from '../notifications/audience.js';
+import {
+  expiresAtMs,
+  isAddressedTo,
+  NotificationListQuery,
+  NotificationPage,
+  NotificationReceipt,
+  NotificationReceiptKind,
+  NotificationStore,
+} from './notification-store.js';
+
+interface ReceiptRow {
+  notification_id: string;
+  user_id: string;
+  delivered_at: number | null;
+  read_at: number | null;
+  dismissed_at: number | null;
+}
+
+interface CandidateRow {
+  data: string;
+  has_audience: number;
+}
+
+const RECEIPT_COLUMNS: Record<NotificationReceiptKind, string> = {
+  delivered: 'delivered_at',
+  read: 'read_at',
+  dismissed: 'dismissed_at',
+};
+
+// Live notifications that may be addressed to @user_id and that they haven't dismissed
+// (needs @now and @cutoff). Rows with audience rules still have to be checked against the profile.
+const VISIBLE_TO_USER = `
+  FROM notifications n
+  LEFT JOIN notification_receipts r ON r.notification_id = n.id AND r.user_id = @user_id
+  WHERE n.is_active = 1
+    AND (n.expires_at IS NULL OR n.expires_at > @now)
+    AND n.stored_at >= @cutoff
+    AND (n.is_global = 1 OR n.has_audience = 1 OR EXISTS (
+      SELECT 1 FROM notification_targets t WHERE t.notification_id = n.id AND t.user_id = @user_id
+    ))
+    AND r.dismissed_at IS NULL
+`;
+
+/**
+ * Keep the rows addressed to the profile that `accept` allows (up to limit), parsed
+ */
+function addressedRows<T extends CandidateRow>(
+  rows: Iterable<T>,
+  profile: AudienceProfile,
+  limit: number = Infinity,
+  accept?: (notification: NotificationData) => boolean
+): Array<{ row: T; notification: NotificationData }> {
+  const result: Array<{ row: T; notification: NotificationData }> = [];
+  for (const row of rows) {
+    if (result.length >= limit) break;
+    const notification: NotificationData = JSON.parse(row.data);
+    if ((!row.has_audience || isAddressedTo(notification, profile)) && (!accept || accept(notification))) {
+      result.push({ row, notification });
+    }
+  }
+  return result;
+}
+
+/**
+ * SQLite file store - survives restarts of a single server instance.
+ * better-sqlite3 is synchronous; the async interface just wraps it.
+ */
+export class SqliteNotificationStore implements NotificationStore {
+  private db: Database.Database;
+  private cleanupTimer: NodeJS.Timeout;
+  private readonly retentionMs: number;
+
+  private constructor(db: Database.Database, retentionMs: number) {
+    this.db = db;
+    this.retentionMs = retentionMs;
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        is_global INTEGER NOT NULL,
+        is_active INTEGER NOT NULL,
+        expires_at INTEGER,
+        stored_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_notifications_stored_at ON notifications (stored_at);
+      CREATE TABLE IF NOT EXISTS notification_targets (
+        notification_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        PRIMARY KEY (notification_id, user_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_notification_targets_user ON notification_targets (user_id);
+      CREATE TABLE IF NOT EXISTS notification_receipts (
+        notification_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        delivered_at INTEGER,
+        read_at INTEGER,
+        dismissed_at INTEGER,
+        PRIMARY KEY (notification_id, user_id)
+      );
+    `);
+    // Databases created before audience rules existed
+    const columns = this.db.prepare('PRAGMA table_info(notifications)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'has_audience')) {
+      this.db.exec('ALTER TABLE notifications ADD COLUMN has_audience INTEGER NOT NULL DEFAULT 0');
+    }
+    this.cleanupTimer = setInterval(() => this.cleanup(), Math.min(this.retentionMs, 60 * 60 * 1000));
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Open (or create) the database file. The driver is loaded lazily so deployments
+   * using another store don't need the native module.
+   */
+  static async open(filePath: string, retentionMs: number = 7 * 24 * 60 * 60 * 1000): Promise<SqliteNotificationStore> {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    mkdirSync(dirname(filePath), { recursive: true });
+    return new SqliteNotificationStore(new BetterSqlite3(filePath), retentionMs);
+  }
+
+  async save(notification: NotificationData): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare(`
+          INSERT INTO notifications (id, data, is_global, has_audience, is_active, expires_at, stored_at)
+          VALUES (@id, @data, @is_global, @has_audience, @is_active, @expires_at, @stored_at)
+          ON CONFLICT (id) DO UPDATE SET
+            data = excluded.data,
+            is_global = excluded.is_global,
+            has_audience = excluded.has_audience,
+            is_active = excluded.is_active,
+            expires_at = excluded.expires_at,
+            stored_at = excluded.stored_at
+        `)
+        .run({
+          id: notification.id,
+          data: JSON.stringify(notification),
+          is_global: notification.isGlobal && !notification.audience ? 1 : 0,
+          has_audience: notification.audience ? 1 : 0,
+          is_active: notification.isActive === false ? 0 : 1,
+          expires_at: expiresAtMs(notification),
+          stored_at: Date.now(),
+        });
+
+      this.db.prepare('DELETE FROM notification_targets WHERE notification_id = ?').run(notification.id);
+      const insertTarget = this.db.prepare('INSERT OR IGNORE INTO notification_targets (notification_id, user_id) VALUES (?, ?)');
+      for (const userId of notification.targetUserIds ?? []) {
+        insertTarget.run(notification.id, userId);
+      }
+    })();
+  }
+
+  async get(notificationId: string): Promise<NotificationData | null> {
+    const row = this.db
+      .prepare('SELECT data FROM notifications WHERE id = ?')
+      .get(notificationId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async listUndelivered(
+    profile: AudienceProfile,
+    limit: number,
+    accept?: (notification: NotificationData) => boolean
+  ): Promise<NotificationData[]> {
+    const rows = this.db
+      .prepare(`SELECT n.data, n.has_audience ${VISIBLE_TO_USER} AND r.delivered_at IS NULL ORDER BY n.stored_at, n.rowid`)
+      .iterate(this.visibilityParams(profile.userId)) as IterableIterator<CandidateRow>;
+    return addressedRows(rows, profile, limit, accept).map(({ notification }) => notification);
+  }
+
+  async recordReceipt(userId: string, notificationId: string, kind: NotificationReceiptKind): Promise<void> {
+    const column = RECEIPT_COLUMNS[kind];
+    // First time wins - later repeats don't move the timestamp
+    this.db
+      .prepare(`
+        INSERT INTO notification_receipts (notification_id, user_id, ${column})
+        VALUES (?, ?, ?)
+        ON CONFLICT (notification_id, user_id) DO UPDATE SET
+          ${column} = COALESCE(${column}, excluded.${column})
+      `)
+      .run(notificationId, userId, Date.now());
+  }
+
+  async getReceipt(userId: string, notificationId: string): Promise<NotificationReceipt | null> {
+    const row = this.db
+      .prepare('SELECT * FROM notification_receipts WHERE notification_id = ? AND user_id = ?')
+      .get(notificationId, userId) as ReceiptRow | undefined;
+    if (!row) return null;
+    return {
+      notificationId: row.notification_id,
+      userId: row.user_id,
+      deliveredAt: row.delivered_at ?? undefined,
+      readAt: row.read_at ?? undefined,
+      dismissedAt: row.dismissed_at ?? undefined,
+    };
+  }
+
+  async listForUser(profile: AudienceProfile, query: NotificationListQuery): Promise<NotificationPage> {
+    const filters: string[] = [];
+    if (query.type !== undefined) {
+      filters.push(`AND (json_extract(n.data, '$.typeId') = @type OR json_extract(n.data, '$.type.name') = @type)`);
+    }
+    if (query.priority !== undefined) {
+      filters.push(`AND json_extract(n.data, '$.priority') = @priority`);
+    }
+    if (query.read !== undefined) {
+      filters.push(query.read ? 'AND r.read_at IS NOT NULL' : 'AND r.read_at IS NULL');
+    }
+
+    // Audience rules are checked here rather than in SQL, so the page is cut afterwards
+    const rows = this.db
+      .prepare(`
+        SELECT n.data, n.has_audience, r.delivered_at, r.read_at ${VISIBLE_TO_USER} ${filters.join(' ')}
+        ORDER BY n.stored_at DESC, n.rowid DESC
+      `)
+      .all({
+        ...this.visibilityParams(profile.userId),
+        type: query.type ?? null,
+        priority: query.priority ?? null,
+      }) as Array<CandidateRow & { delivered_at: number | null; read_at: number | null }>;
+    const matching = addressedRows(rows, profile);
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit).map(({ row, notification }) => ({
+        notification,
+        deliveredAt: row.delivered_at ?? undefined,
+        readAt: row.read_at ?? undefined,
+      })),
+      total: matching.length,
+      offset: query.offset,
+      limit: query.limit,
+    };
+  }
+
+  async countUnread(profile: AudienceProfile): Promise<number> {
+    return this.unread(profile).length;
+  }
+
+  async markAllRead(profile: AudienceProfile): Promise<number> {
+    const unread = this.unread(profile);
+    const markRead = this.db.prepare(`
+      INSERT INTO notification_receipts (notification_id, user_id, read_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT (notification_id, user_id) DO UPDATE SET
+        read_at = COALESCE(read_at, excluded.read_at)
+    `);
+    const now = Date.now();
+    this.db.transaction(() => {
+      for (const { notification } of unread) {
+        markRead.run(notification.id, profile.userId, now);
+      }
+    })();
+    return unread.length;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    this.db.close();
+  }
+
+  private unread(profile: AudienceProfile) {
+    const rows = this.db
+      .prepare(`SELECT n.data, n.has_audience ${VISIBLE_TO_USER} AND r.read_at IS NULL`)
+      .all(this.visibilityParams(profile.userId)) as CandidateRow[];
+    return addressedRows(rows, profile);
+  }
+
+  private visibilityParams(userId: string) {
+    const now = Date.now();
+    return { user_id: userId, now, cutoff: now - this.retentionMs };
+  }
+
+  /**
+   * Drop notifications (and their targets and receipts) older than the retention period
+   */
+  private cleanup(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.db.transaction(() => {
+      const stale = 'SELECT id FROM notifications WHERE stored_at < ?';
+      this.db.prepare(`DELETE FROM notification_receipts WHERE notification_id IN (${stale})`).run(cutoff);
+      this.db.prepare(`DELETE FROM notification_targets WHERE notification_id IN (${stale})`).run(cutoff);
+      this.db.prepare('DELETE FROM notifications WHERE stored_at < ?').run(cutoff);
+    })();
+  }
+}
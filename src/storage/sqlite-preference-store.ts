@@ -0,0 +1,51 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type Database from 'better-sqlite3';
+import type { NotificationPreferences } from '../notifications/preferences.js';
+import { PreferenceStore } from './preference-store.js';
+
+/**
+ * SQLite file store - preferences survive restarts of a single server instance.
+ */
+export class SqlitePreferenceStore implements PreferenceStore {
+  private db: Database.Database;
+
+  private constructor(db: Database.Database) {
+    this.db = db;
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_preferences (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Open (or create) the database file. The driver is loaded lazily so deployments
+   * using another store don't need the native module.
+   */
+  static async open(filePath: string): Promise<SqlitePreferenceStore> {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    mkdirSync(dirname(filePath), { recursive: true });
+    return new SqlitePreferenceStore(new BetterSqlite3(filePath));
+  }
+
+  async get(userId: string): Promise<NotificationPreferences | null> {
+    const row = this.db
+      .prepare('SELECT data FROM notification_preferences WHERE user_id = ?')
+      .get(userId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async save(userId: string, preferences: NotificationPreferences): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO notification_preferences (user_id, data, updated_at) VALUES (?, ?, ?)')
+      .run(userId, JSON.stringify(preferences), Date.now());
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,108 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type Database from 'better-sqlite3';
+import { ScheduledNotification, ScheduleStore } from './schedule-store.js';
+
+interface ScheduleRow {
+  id: string;
+  data: string;
+  send_at: number;
+  cron: string | null;
+  created_by: string;
+  created_at: number;
+}
+
+function fromRow(row: ScheduleRow): ScheduledNotification {
+  return {
+    id: row.id,
+    notification: JSON.parse(row.data),
+    sendAt: row.send_at,
+    cron: row.cron ?? undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite file store - pending schedules survive restarts. Replicas sharing the file
+ * don't double-send because advance() only succeeds for one of them.
+ */
+export class SqliteScheduleStore implements ScheduleStore {
+  private db: Database.Database;
+
+  private constructor(db: Database.Database) {
+    this.db = db;
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notification_schedules (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        send_at INTEGER NOT NULL,
+        cron TEXT,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_notification_schedules_send_at ON notification_schedules (send_at);
+    `);
+  }
+
+  /**
+   * Open (or create) the database file. The driver is loaded lazily so deployments
+   * using another store don't need the native module.
+   */
+  static async open(filePath: string): Promise<SqliteScheduleStore> {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    mkdirSync(dirname(filePath), { recursive: true });
+    return new SqliteScheduleStore(new BetterSqlite3(filePath));
+  }
+
+  async save(schedule: ScheduledNotification): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO notification_schedules (id, data, send_at, cron, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        schedule.id,
+        JSON.stringify(schedule.notification),
+        schedule.sendAt,
+        schedule.cron ?? null,
+        schedule.createdBy,
+        schedule.createdAt
+      );
+  }
+
+  async get(id: string): Promise<ScheduledNotification | null> {
+    const row = this.db.prepare('SELECT * FROM notification_schedules WHERE id = ?').get(id) as ScheduleRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async list(): Promise<ScheduledNotification[]> {
+    const rows = this.db.prepare('SELECT * FROM notification_schedules ORDER BY send_at').all() as ScheduleRow[];
+    return rows.map(fromRow);
+  }
+
+  async listDue(now: number, limit: number): Promise<ScheduledNotification[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM notification_schedules WHERE send_at <= ? ORDER BY send_at LIMIT ?')
+      .all(now, limit) as ScheduleRow[];
+    return rows.map(fromRow);
+  }
+
+  async advance(id: string, expectedSendAt: number, nextSendAt: number | null): Promise<boolean> {
+    const result = nextSendAt === null
+      ? this.db.prepare('DELETE FROM notification_schedules WHERE id = ? AND send_at = ?').run(id, expectedSendAt)
+      : this.db
+          .prepare('UPDATE notification_schedules SET send_at = ? WHERE id = ? AND send_at = ?')
+          .run(nextSendAt, id, expectedSendAt);
+    return result.changes === 1;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM notification_schedules WHERE id = ?').run(id).changes === 1;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -1,4 +1,4 @@
-import { AvailableFunction } from '../llm/gemini.js';
+import { AvailableFunction } from '../llm/provider.js';
 
 export interface WeatherArgs {
   location: string;
@@ -5,10 +5,18 @@ export enum Role {
   Function = "function"
 }
 
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
 export interface ChatMessage {
   role: Role;
   content: string;
   name?: string;
+  toolCalls?: ToolCall[]; // Assistant turns that requested tools
+  toolCallId?: string; // Function results, matched to the requesting ToolCall.id
 }
 
 export function messagesToPrompt(messages: ChatMessage[]): string {
@@ -1,44 +1,167 @@
+import { randomUUID } from 'crypto';
 import { ChatMessage } from '../types/message.js';
 import { WebSocketServer } from './server.js';
 import { OrchestratorService } from '../orchestrator/service.js';
+import {
+  LLMSelectionData,
+  FunctionExecuteResponse,
+  MessageType,
+  QueueUpdateData,
+  SendMessageData,
+  StopScope,
+} from './protocol.js';
+
+export enum ChatConcurrencyPolicy {
+  Queue = "queue", // Later messages wait for the current answer, in arrival order
+  Reject = "reject", // Later messages are refused while an answer is being generated
+}
+
+export function isChatConcurrencyPolicy(value: unknown): value is ChatConcurrencyPolicy {
+  return Object.values(ChatConcurrencyPolicy).includes(value as ChatConcurrencyPolicy);
+}
+
+interface QueuedMessage {
+  id: string; // Client's message_id, or generated
+  userMessage: ChatMessage;
+  selectedDocuments?: string[];
+  cartData?: SendMessageData['cartData'];
+}
+
+interface ChatQueue {
+  wsServer: WebSocketServer;
+  current: QueuedMessage | null;
+  pending: QueuedMessage[];
+}
 
 export class MessageHandler {
   private orchestrator: OrchestratorService;
+  private queues: Map<string, ChatQueue> = new Map(); // Only chats with work in progress
+  private policy: ChatConcurrencyPolicy;
+  private maxQueued: number;
 
-  constructor(orchestrator: OrchestratorService) {
+  constructor(
+    orchestrator: OrchestratorService,
+    opts?: { policy?: ChatConcurrencyPolicy; maxQueuedMessages?: number }
+  ) {
     this.orchestrator = orchestrator;
+    this.policy = opts?.policy ?? ChatConcurrencyPolicy.Queue;
+    this.maxQueued = opts?.maxQueuedMessages ?? 5;
+  }
+
+  /**
+   * Whether this process is answering (or holding queued messages for) the chat
+   */
+  hasQueue(chatId: string): boolean {
+    return this.queues.has(chatId);
+  }
+
+  /**
+   * Why a new user message for this chat can't be accepted right now, or null if it can
+   */
+  checkCapacity(chatId: string): string | null {
+    const queue = this.queues.get(chatId);
+    if (!queue) {
+      return null;
+    }
+    if (this.policy === ChatConcurrencyPolicy.Reject) {
+      return 'A response is still being generated for this chat. Wait for it to finish or stop it first.';
+    }
+    if (queue.pending.length >= this.maxQueued) {
+      return `This chat already has ${queue.pending.length} messages waiting. Wait for them or stop them first.`;
+    }
+    return null;
   }
 
-  async handleUserMessage(
+  /**
+   * Queue a user message; chats process their messages one at a time, in arrival order.
+   * Returns the message's position (0 = being answered now).
+   */
+  enqueueUserMessage(
     chatId: string,
     userMessage: ChatMessage,
     wsServer: WebSocketServer,
     selectedDocuments?: string[],
-    cartData?: {
-      items: Array<{
-        id: string;
-        type: "publisher" | "product";
-        name: string;
-        price: number;
-        quantity: number;
-        addedAt?: string;
-        metadata?: {
-          publisherId?: string;
-          website?: string;
-          niche?: string[];
-          dr?: number;
-          da?: number;
-        };
-      }>;
-      totalItems: number;
-      totalPrice: number;
+    cartData?: SendMessageData['cartData'],
+    messageId?: string
+  ): number {
+    let queue = this.queues.get(chatId);
+    const startDrain = !queue;
+    if (!queue) {
+      queue = { wsServer, current: null, pending: [] };
+      this.queues.set(chatId, queue);
     }
-  ): Promise<void> {
-    await this.orchestrator.processMessage(chatId, userMessage, wsServer, selectedDocuments, cartData);
+
+    queue.pending.push({
+      id: messageId ?? `msg_${randomUUID()}`,
+      userMessage,
+      selectedDocuments,
+      cartData,
+    });
+    const position = queue.pending.length - (queue.current ? 0 : 1);
+
+    if (startDrain) {
+      wsServer.announceQueue(chatId, true);
+      void this.drain(chatId, queue);
+    } else {
+      this.sendQueueUpdate(chatId, queue);
+    }
+    return position;
+  }
+
+  private async drain(chatId: string, queue: ChatQueue): Promise<void> {
+    let next: QueuedMessage | undefined;
+    while ((next = queue.pending.shift())) {
+      queue.current = next;
+      this.sendQueueUpdate(chatId, queue);
+      try {
+        await this.orchestrator.processMessage(chatId, next.userMessage, queue.wsServer, next.selectedDocuments, next.cartData);
+      } catch (error) {
+        // processMessage reports its own errors to the room - just keep the queue moving
+        console.error(`[Queue] Message ${next.id} failed chatId=${chatId}:`, error);
+      }
+      queue.current = null;
+    }
+
+    this.queues.delete(chatId);
+    this.sendQueueUpdate(chatId, queue);
+    queue.wsServer.announceQueue(chatId, false);
   }
 
-  handleStop(chatId: string): void {
+  private sendQueueUpdate(chatId: string, queue: ChatQueue): void {
+    const items = [...(queue.current ? [queue.current] : []), ...queue.pending];
+    const update: QueueUpdateData = {
+      chat_id: chatId,
+      queue: items.map((item, position) => ({ message_id: item.id, position })),
+    };
+    queue.wsServer.broadcastToRoom(chatId, {
+      type: MessageType.QueueUpdate,
+      payload: update,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  handleModelSelection(chatId: string, selection: LLMSelectionData): void {
+    this.orchestrator.setChatLLM(chatId, selection);
+  }
+
+  /**
+   * Returns false if no tool call in this process is waiting on the requestId
+   */
+  handleFunctionResponse(response: FunctionExecuteResponse, clientRooms: Set<string>): boolean {
+    return this.orchestrator.handleFunctionResponse(response, clientRooms);
+  }
+
+  /**
+   * Stop the answer being generated; with scope 'all' the chat's waiting messages are dropped too
+   */
+  handleStop(chatId: string, scope: StopScope = 'current'): void {
+    const queue = this.queues.get(chatId);
+    if (scope === 'all' && queue && queue.pending.length > 0) {
+      console.log(`[Queue] Dropping ${queue.pending.length} queued messages chatId=${chatId}`);
+      queue.pending = [];
+      this.sendQueueUpdate(chatId, queue);
+    }
     this.orchestrator.cancel(chatId);
   }
 }
-
@@ -3,8 +3,13 @@ import { ChatMessage } from '../types/message.js';
 export enum MessageType {
   ConnectionEstablished = "connection_established",
   ConnectionError = "connection_error",
+  Authenticate = "authenticate", // Frontend → Backend: { token } as the first frame
+  Authenticated = "authenticated", // Backend → Frontend: { user_id }
   JoinChat = "join_chat",
   LeaveChat = "leave_chat",
+  ChatJoined = "chat_joined", // Backend → Frontend: JoinChat acknowledgement
+  ChatLeft = "chat_left", // Backend → Frontend: LeaveChat acknowledgement
+  Presence = "presence", // Backend → room: a participant joined or left
   ChatMessage = "chat_message",
   MessageReceived = "message_received",
   MessageError = "message_error",
@@ -29,15 +34,91 @@ export enum MessageType {
   IterationStart = "iteration_start",
   IterationEnd = "iteration_end",
   Heartbeat = "heartbeat",
+  ReplayTruncated = "replay_truncated", // Backend → Frontend: some missed frames are no longer buffered
+  QueueUpdate = "queue_update", // Backend → room: user messages waiting to be answered
   Error = "error",
   StopGeneration = "stop_generation",
 }
 
+export enum MessageErrorCode {
+  InvalidJson = "invalid_json",
+  InvalidFrame = "invalid_frame",
+  UnknownType = "unknown_type",
+  InvalidPayload = "invalid_payload",
+  PayloadTooLarge = "payload_too_large",
+  RateLimited = "rate_limited",
+  ChatBusy = "chat_busy", // A response is already being generated for this chat
+}
+
+export interface MessageErrorData {
+  code: MessageErrorCode;
+  message: string;
+  message_id?: string; // message_id of the offending frame, if it had one
+  retry_after_ms?: number; // Set for rate_limited
+}
+
+export interface LLMSelectionData {
+  provider?: string;
+  model?: string;
+}
+
+export interface AuthenticateMessage {
+  token: string; // HS256 JWT; the userId is taken from its `sub` claim
+}
+
 export interface JoinRoomMessage {
   chat_id: string;
+  user_id?: string; // Ignored - the userId comes from the connection's token
+  llm?: LLMSelectionData; // Per-chat provider/model override
+  last_seq?: number; // Resume: replay buffered frames with a higher seq before live ones
+}
+
+export interface LeaveRoomMessage {
+  chat_id: string;
+}
+
+export interface ParticipantInfo {
+  connection_id: string;
   user_id?: string;
 }
 
+export interface ChatJoinedData {
+  chat_id: string;
+  latest_seq: number; // Frames up to this seq exist (replayed ones follow when last_seq was sent)
+  participants: ParticipantInfo[];
+}
+
+export interface ChatLeftData {
+  chat_id: string;
+}
+
+export interface PresenceData {
+  chat_id: string;
+  event: 'joined' | 'left';
+  reason?: 'left' | 'disconnected';
+  participant: ParticipantInfo;
+  participants: ParticipantInfo[]; // Everyone in the room after the change
+}
+
+export type StopScope = 'current' | 'all';
+
+export interface StopGenerationMessage {
+  chat_id: string;
+  scope?: StopScope; // 'current' (default) stops the answer in progress, 'all' also drops queued messages
+}
+
+export interface QueueUpdateData {
+  chat_id: string;
+  queue: Array<{ message_id: string; position: number }>; // Position 0 is being answered now; empty when idle
+}
+
+export interface ReplayTruncatedData {
+  chat_id: string;
+  last_seq: number; // What the client asked to resume from
+  first_available_seq?: number; // Oldest frame still buffered (replayed next)
+  latest_seq: number;
+}
+
 export interface RoomMessage {
   room_id: string;
   payload: ChatMessage;
@@ -45,8 +126,9 @@ export interface RoomMessage {
 
 export interface SendMessageData {
   chat_id: string;
-  user_id?: string;
+  user_id?: string; // Ignored - the userId comes from the connection's token
   message: RoomMessage;
+  llm?: LLMSelectionData; // Per-chat provider/model override
   selectedDocuments?: string[];
   cartData?: {
     items: Array<{
@@ -74,11 +156,28 @@ export interface WebSocketMessage {
   payload: unknown;
   timestamp: number;
   message_id: string;
+  seq?: number; // Per-chat sequence number, set on frames broadcast to a chat room
 }
 
 export interface ClientInfo {
-  address: string;
+  connectionId: string; // Unique per socket
+  userId?: string; // Set once the connection's token is verified
   rooms: Set<string>;
+  connectedAt: number;
+  lastSeenAt: number; // Last pong or client heartbeat
+  latencyMs?: number; // Round trip of the last ping
+  metadata: {
+    remoteAddress: string;
+    forwardedFor?: string; // X-Forwarded-For when behind a proxy
+    userAgent?: string;
+  };
+}
+
+export interface HeartbeatData {
+  server_time: number;
+  interval_ms: number; // Expect the next heartbeat within this interval
+  latency_ms?: number; // Round trip of the last server ping
+  client_time?: number; // Echoed from a client-initiated heartbeat
 }
 
 export interface FunctionExecuteRequest {
@@ -0,0 +1,71 @@
+export interface TokenBucketOptions {
+  capacity: number; // Burst size
+  refillPerSecond: number; // Sustained rate
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * TokenBucketLimiter - One token bucket per key (userId, connectionId, ...)
+ *
+ * Buckets start full and refill continuously; each allowed action takes one token.
+ * Buckets that have refilled completely carry no state and are dropped periodically.
+ */
+export class TokenBucketLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private options: TokenBucketOptions;
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(options: TokenBucketOptions) {
+    this.options = options;
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  take(key: string, cost: number = 1): RateLimitResult {
+    const now = Date.now();
+    const bucket = this.refill(this.buckets.get(key) ?? { tokens: this.options.capacity, updatedAt: now }, now);
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    const missing = cost - bucket.tokens;
+    return { allowed: false, retryAfterMs: Math.ceil((missing / this.options.refillPerSecond) * 1000) };
+  }
+
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  dispose(): void {
+    clearInterval(this.cleanupTimer);
+    this.buckets.clear();
+  }
+
+  private refill(bucket: Bucket, now: number): Bucket {
+    const elapsedSec = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.options.capacity, bucket.tokens + elapsedSec * this.options.refillPerSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (this.refill(bucket, now).tokens >= this.options.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
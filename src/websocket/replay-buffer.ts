@@ -0,0 +1,140 @@
+import type { WebSocketMessage } from './protocol.js';
+
+export interface ReplayOptions {
+  maxFrames: number; // Frames kept per chat
+  ttlMs: number; // Frames older than this are dropped; chats with nothing left are forgotten
+}
+
+export interface ReplayResult {
+  frames: WebSocketMessage[];
+  truncated: boolean; // Some frames after lastSeq are no longer buffered
+  firstAvailableSeq?: number;
+  latestSeq: number;
+}
+
+interface RoomLog {
+  lastSeq: number;
+  frames: Array<{ frame: WebSocketMessage; bufferedAt: number }>;
+}
+
+/**
+ * RoomReplayBuffer - Numbers outbound room frames and keeps the latest ones per chat
+ *
+ * Every frame broadcast to a chat gets the next per-chat `seq`. A reconnecting client sends
+ * the last seq it saw and is replayed everything newer that is still buffered.
+ */
+export class RoomReplayBuffer {
+  private rooms: Map<string, RoomLog> = new Map();
+  private options: ReplayOptions;
+  private isRoomActive: (chatId: string) => boolean;
+  private cleanupTimer: NodeJS.Timeout;
+
+  /**
+   * isRoomActive keeps the numbering of chats that still have participants, so live
+   * clients never see seq restart
+   */
+  constructor(options: ReplayOptions, isRoomActive: (chatId: string) => boolean = () => false) {
+    this.options = options;
+    this.isRoomActive = isRoomActive;
+    this.cleanupTimer = setInterval(() => this.cleanup(), options.ttlMs);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Assign the next seq for the chat and buffer the frame. Returns the numbered frame.
+   */
+  append(chatId: string, message: WebSocketMessage): WebSocketMessage {
+    const log = this.getOrCreate(chatId);
+    log.lastSeq++;
+    const frame: WebSocketMessage = { ...message, seq: log.lastSeq };
+    log.frames.push({ frame, bufferedAt: Date.now() });
+    this.trim(log);
+    return frame;
+  }
+
+  /**
+   * Buffer a frame another replica already numbered, keeping the log in seq order
+   */
+  ingest(chatId: string, frame: WebSocketMessage): void {
+    if (frame.seq === undefined) return;
+    const seq = frame.seq;
+    const log = this.getOrCreate(chatId);
+    log.lastSeq = Math.max(log.lastSeq, seq);
+
+    let index = log.frames.length;
+    while (index > 0 && (log.frames[index - 1].frame.seq as number) > seq) {
+      index--;
+    }
+    log.frames.splice(index, 0, { frame, bufferedAt: Date.now() });
+    this.trim(log);
+  }
+
+  /**
+   * Frames with seq > lastSeq that are still buffered, oldest first
+   */
+  since(chatId: string, lastSeq: number): ReplayResult {
+    const log = this.rooms.get(chatId);
+    if (!log) {
+      // Unknown (or expired) chat - anything the client claims to have seen is gone
+      return { frames: [], truncated: lastSeq > 0, latestSeq: 0 };
+    }
+
+    this.trim(log);
+    const firstAvailableSeq = log.frames[0]?.frame.seq;
+    // A client ahead of us saw an earlier numbering (the chat expired and restarted) - send it all
+    const restarted = lastSeq > log.lastSeq;
+    const from = restarted ? 0 : lastSeq;
+    const frames = log.frames
+      .filter(entry => (entry.frame.seq as number) > from)
+      .map(entry => entry.frame);
+    // Frames were lost if there is a gap between what the client saw and the oldest buffered frame
+    const truncated = restarted
+      || (log.lastSeq > lastSeq && (firstAvailableSeq === undefined || firstAvailableSeq > lastSeq + 1));
+
+    return { frames, truncated, firstAvailableSeq, latestSeq: log.lastSeq };
+  }
+
+  latestSeq(chatId: string): number {
+    return this.rooms.get(chatId)?.lastSeq ?? 0;
+  }
+
+  delete(chatId: string): void {
+    this.rooms.delete(chatId);
+  }
+
+  dispose(): void {
+    clearInterval(this.cleanupTimer);
+    this.rooms.clear();
+  }
+
+  private getOrCreate(chatId: string): RoomLog {
+    let log = this.rooms.get(chatId);
+    if (!log) {
+      log = { lastSeq: 0, frames: [] };
+      this.rooms.set(chatId, log);
+    }
+    return log;
+  }
+
+  private trim(log: RoomLog): void {
+    const oldest = Date.now() - this.options.ttlMs;
+    while (
+      log.frames.length > 0 &&
+      (log.frames.length > this.options.maxFrames || log.frames[0].bufferedAt < oldest)
+    ) {
+      log.frames.shift();
+    }
+  }
+
+  /**
+   * Forget chats whose frames have all expired and that nobody is in
+   */
+  private cleanup(): void {
+    for (const [chatId, log] of this.rooms.entries()) {
+      this.trim(log);
+      if (log.frames.length === 0 && !this.isRoomActive(chatId)) {
+        this.rooms.delete(chatId);
+      }
+    }
+  }
+}
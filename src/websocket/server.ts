@@ -1,119 +1,436 @@
 import { WebSocket, WebSocketServer as WSServer } from 'ws';
-import { Server as HTTPServer } from 'http';
-import { RoomMessage, MessageType, SendMessageData, JoinRoomMessage } from './protocol.js';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { RoomMessage, MessageType, JoinRoomMessage, SendMessageData, ClientInfo, FunctionExecuteResponse, StopScope, HeartbeatData, ReplayTruncatedData, ParticipantInfo, ChatJoinedData, ChatLeftData, PresenceData, MessageErrorCode, MessageErrorData } from './protocol.js';
 import { ChatMessage, Role } from '../types/message.js';
 import { MessageHandler } from './handler.js';
 import type { WebSocketMessage } from './protocol.js';
+import { JwtError, JwtVerifyOptions, verifyJwt } from '../auth/jwt.js';
+import { ReplayOptions, RoomReplayBuffer } from './replay-buffer.js';
+import { InboundFrame, parseInboundFrame } from './validation.js';
+import { TokenBucketLimiter, TokenBucketOptions } from './rate-limiter.js';
+import type { Backplane } from '../backplane/backplane.js';
+import { ChatHistoryStore, InMemoryChatHistoryStore } from '../storage/chat-history-store.js';
 
 export { WebSocketMessage, MessageType };
 
+export interface ClientConnection extends ClientInfo {
+  ws: WebSocket;
+  authTimer?: NodeJS.Timeout;
+  pingSentAt?: number; // Outstanding ping, cleared by the pong
+  pongTimer?: NodeJS.Timeout;
+}
+
 export interface ClientMap {
-  [address: string]: { 
-    ws: WebSocket;
-    rooms: Set<string>;
-  };
+  [connectionId: string]: ClientConnection;
 }
 
 export interface RoomMap {
-  [roomId: string]: Set<string>;
+  [roomId: string]: Set<string>; // connectionIds
+}
+
+export interface ChatAuthOptions extends JwtVerifyOptions {
+  jwtSecret: string;
+  authTimeoutMs?: number; // How long a connection may stay unauthenticated (default: 10s)
+}
+
+export interface HeartbeatOptions {
+  intervalMs: number; // How often each socket is pinged (and sent a Heartbeat frame)
+  timeoutMs: number; // How long to wait for the pong before terminating the socket
+}
+
+export interface ChatServerOptions {
+  auth: ChatAuthOptions;
+  heartbeat?: HeartbeatOptions;
+  replay?: ReplayOptions;
+  maxPayloadBytes?: number; // Larger inbound frames are answered with a payload_too_large MessageError
+  rateLimit?: {
+    user: TokenBucketOptions; // User chat messages, shared by all of the user's connections
+    connection: TokenBucketOptions; // Every inbound frame on a connection
+  };
+  backplane?: Backplane; // Shares room frames, chat ownership and chat queues with other replicas
+  chatHistory?: ChatHistoryStore; // Records who owns each chat (default: in-memory)
+}
+
+// Close code for connections that fail or skip authentication
+const CLOSE_UNAUTHORIZED = 4401;
+
+// Backplane channels
+const ROOM_FRAMES_CHANNEL = 'chat.frames';
+const CHAT_CLAIMS_CHANNEL = 'chat.claims';
+const FUNCTION_RESPONSES_CHANNEL = 'chat.function-responses';
+const CHAT_STOPS_CHANNEL = 'chat.stops';
+const CHAT_QUEUES_CHANNEL = 'chat.queues';
+const QUEUED_MESSAGES_CHANNEL = 'chat.queued-messages';
+const QUEUE_REJECTIONS_CHANNEL = 'chat.queue-rejections';
+const ROOM_MEMBERS_CHANNEL = 'chat.members';
+
+// Shared per-chat frame counters (backplane key prefix), kept a day after the chat's last frame
+const ROOM_SEQ_KEY = 'chat.seq:';
+const ROOM_SEQ_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface RoomFrameEvent {
+  room_id: string;
+  frame: WebSocketMessage; // Already numbered by the publishing replica
+}
+
+interface ChatClaimEvent {
+  chat_id: string;
+  user_id: string;
+}
+
+interface FunctionResponseEvent {
+  chat_ids: string[]; // Chats the responding connection is in
+  response: FunctionExecuteResponse;
+}
+
+interface ChatStopEvent {
+  chat_id: string;
+  scope: StopScope;
+}
+
+/**
+ * A replica started (or finished) answering a chat; repeated with every heartbeat while it runs
+ */
+interface ChatQueueEvent {
+  chat_id: string;
+  node_id: string;
+  active: boolean;
+}
+
+/**
+ * A user message handed to the replica that is answering the chat
+ */
+interface QueuedMessageEvent {
+  node_id: string; // Replica that should queue it
+  origin_node_id: string;
+  connection_id: string;
+  chat_id: string;
+  message: ChatMessage;
+  selected_documents?: string[];
+  cart_data?: SendMessageData['cartData'];
+  message_id?: string;
+}
+
+/**
+ * The participants a replica has in a chat; sent on every join and leave and repeated with every
+ * heartbeat while there are any. An empty list means the replica has none left.
+ */
+interface RoomMembersEvent {
+  chat_id: string;
+  node_id: string;
+  participants: ParticipantInfo[];
+}
+
+interface QueueRejectionEvent {
+  node_id: string; // Replica holding the sender's connection
+  connection_id: string;
+  error: MessageErrorData;
 }
 
 export class WebSocketServer {
   private server: WSServer | null = null;
   private clients: ClientMap = {};
   private rooms: RoomMap = {};
-  private roomUsers: Map<string, string> = new Map(); // chatId -> userId
+  private roomUsers: Map<string, string> = new Map(); // chatId -> owning userId, as recorded in chatHistory
+  private pendingClaims: Map<string, Promise<string>> = new Map(); // chatId -> owner lookup in flight
+  private chatHistory: ChatHistoryStore;
   private port: number;
   private messageHandler: MessageHandler;
+  private auth: ChatAuthOptions;
+  private heartbeat: HeartbeatOptions;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private replay: RoomReplayBuffer;
+  private maxPayloadBytes: number;
+  private userLimiter: TokenBucketLimiter;
+  private connectionLimiter: TokenBucketLimiter;
+  private backplane: Backplane | null;
+  private unsubscribers: Array<() => void> = [];
+  private numbering: Map<string, Promise<void>> = new Map(); // roomId -> last frame waiting for its seq
+  private localQueues: Set<string> = new Set(); // Chats this replica is answering
+  private remoteQueues: Map<string, { nodeId: string; seenAt: number }> = new Map(); // Chats other replicas are answering
+  private remoteMembers: Map<string, Map<string, { participants: ParticipantInfo[]; seenAt: number }>> = new Map(); // chatId -> nodeId -> participants there
 
-  constructor(port: number, messageHandler: MessageHandler) {
+  constructor(port: number, messageHandler: MessageHandler, options: ChatServerOptions) {
     this.port = port;
     this.messageHandler = messageHandler;
+    this.auth = options.auth;
+    this.heartbeat = options.heartbeat ?? { intervalMs: 30000, timeoutMs: 10000 };
+    this.maxPayloadBytes = options.maxPayloadBytes ?? 256 * 1024;
+    this.userLimiter = new TokenBucketLimiter(options.rateLimit?.user ?? { capacity: 5, refillPerSecond: 20 / 60 });
+    this.connectionLimiter = new TokenBucketLimiter(options.rateLimit?.connection ?? { capacity: 40, refillPerSecond: 20 });
+    this.replay = new RoomReplayBuffer(
+      options.replay ?? { maxFrames: 2000, ttlMs: 5 * 60 * 1000 },
+      chatId => !!this.rooms[chatId]
+    );
+
+    this.chatHistory = options.chatHistory ?? new InMemoryChatHistoryStore();
+    this.backplane = options.backplane ?? null;
+    if (this.backplane) {
+      this.unsubscribers.push(
+        this.backplane.subscribe(ROOM_FRAMES_CHANNEL, message => this.handleRemoteFrame(message as RoomFrameEvent)),
+        this.backplane.subscribe(CHAT_CLAIMS_CHANNEL, message => this.handleRemoteClaim(message as ChatClaimEvent)),
+        this.backplane.subscribe(FUNCTION_RESPONSES_CHANNEL, message => this.handleRemoteFunctionResponse(message as FunctionResponseEvent)),
+        this.backplane.subscribe(CHAT_STOPS_CHANNEL, message => this.handleRemoteStop(message as ChatStopEvent)),
+        this.backplane.subscribe(CHAT_QUEUES_CHANNEL, message => this.handleRemoteQueue(message as ChatQueueEvent)),
+        this.backplane.subscribe(QUEUED_MESSAGES_CHANNEL, message => this.handleQueuedMessage(message as QueuedMessageEvent)),
+        this.backplane.subscribe(QUEUE_REJECTIONS_CHANNEL, message => this.handleQueueRejection(message as QueueRejectionEvent)),
+        this.backplane.subscribe(ROOM_MEMBERS_CHANNEL, message => this.handleRemoteMembers(message as RoomMembersEvent))
+      );
+    }
   }
 
-  attachToServer(httpServer: HTTPServer): void {
-    this.server = new WSServer({ 
-      server: httpServer,
-      path: '/' // Chat WebSocket on root path
-    });
+  /**
+   * Shared-server mode - the HTTP server routes chat upgrades here via handleUpgrade
+   */
+  startNoServer(): void {
+    this.server = new WSServer({ noServer: true, maxPayload: this.hardPayloadLimit() });
     this.setupConnectionHandlers();
   }
 
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!this.server) {
+      socket.destroy();
+      return;
+    }
+    const server = this.server;
+    server.handleUpgrade(req, socket, head, ws => server.emit('connection', ws, req));
+  }
+
   start(): void {
     // Standalone mode - create server on port (for backward compatibility)
-    this.server = new WSServer({ port: this.port });
+    this.server = new WSServer({ port: this.port, maxPayload: this.hardPayloadLimit() });
     this.setupConnectionHandlers();
   }
 
+  /**
+   * Stop heartbeats and close the server (and every socket on it)
+   */
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.replay.dispose();
+    this.userLimiter.dispose();
+    this.connectionLimiter.dispose();
+    for (const connectionId of Object.keys(this.clients)) {
+      this.clients[connectionId].ws.terminate();
+      this.cleanup(connectionId);
+    }
+    this.server?.close();
+  }
+
+  /**
+   * ws drops the connection (close code 1009) for frames above this without buffering them.
+   * Frames between maxPayloadBytes and this get a MessageError and the connection stays open.
+   */
+  private hardPayloadLimit(): number {
+    return this.maxPayloadBytes * 4;
+  }
+
   private setupConnectionHandlers(): void {
     if (!this.server) {
       throw new Error('WebSocket server not initialized');
     }
+
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), this.heartbeat.intervalMs);
     
     this.server.on('connection', (ws: WebSocket, req) => {
-      const address = req.socket.remoteAddress || 'unknown';
+      // Every socket gets its own id - tabs and users behind the same proxy/NAT share a remote address
+      const connectionId = randomUUID();
+      const forwardedFor = req.headers['x-forwarded-for'];
       
       // Register client
-      this.clients[address] = {
+      this.clients[connectionId] = {
+        connectionId,
         ws,
-        rooms: new Set()
+        rooms: new Set(),
+        connectedAt: Date.now(),
+        lastSeenAt: Date.now(),
+        metadata: {
+          remoteAddress: req.socket.remoteAddress || 'unknown',
+          forwardedFor: Array.isArray(forwardedFor) ? forwardedFor.join(', ') : forwardedFor,
+          userAgent: req.headers['user-agent'],
+        },
       };
 
       // Send welcome message
       this.sendMessage(ws, {
         type: MessageType.ConnectionEstablished,
-        payload: { message: "Welcome to AI Orchestrator WebSocket server!" },
+        payload: { message: "Welcome to AI Orchestrator WebSocket server!", connection_id: connectionId },
         timestamp: Date.now(),
         message_id: `msg_${Date.now()}`
       });
 
+      // Authenticate from ?token=..., otherwise the first frame must be Authenticate
+      const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+      if (token) {
+        this.authenticate(connectionId, token);
+      } else {
+        this.clients[connectionId].authTimer = setTimeout(() => {
+          this.rejectConnection(connectionId, 'Authentication timed out');
+        }, this.auth.authTimeoutMs ?? 10000);
+      }
+
       // Handle incoming messages
       ws.on('message', (data: Buffer) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(data.toString());
-          this.handleMessage(address, message);
-        } catch (error) {
-          console.error('❌ [WebSocketServer] Error parsing message:', error);
-          this.sendMessage(ws, {
-            type: MessageType.Error,
-            payload: { error: "Invalid message format" },
-            timestamp: Date.now(),
-            message_id: `msg_${Date.now()}`
+        const limit = this.connectionLimiter.take(connectionId);
+        if (!limit.allowed) {
+          this.sendMessageError(connectionId, {
+            code: MessageErrorCode.RateLimited,
+            message: 'Too many messages on this connection',
+            retry_after_ms: limit.retryAfterMs,
           });
+          return;
+        }
+
+        const result = parseInboundFrame(data, this.maxPayloadBytes);
+        if (result.ok) {
+          this.handleMessage(connectionId, result.frame);
+        } else {
+          this.handleInvalidFrame(connectionId, result.error);
+        }
+      });
+
+      ws.on('pong', () => {
+        const client = this.clients[connectionId];
+        if (!client) return;
+        const now = Date.now();
+        if (client.pingSentAt) {
+          client.latencyMs = now - client.pingSentAt;
         }
+        client.pingSentAt = undefined;
+        client.lastSeenAt = now;
+        clearTimeout(client.pongTimer);
       });
 
       // Handle disconnect
       ws.on('close', () => {
-        this.cleanup(address);
+        this.cleanup(connectionId);
       });
 
       ws.on('error', (error) => {
-        console.error(`[Chat] WebSocket error for ${address}:`, error);
+        console.error(`[Chat] WebSocket error for ${connectionId}:`, error);
       });
     });
   }
 
-  private handleMessage(address: string, message: WebSocketMessage): void {
+  private handleInvalidFrame(connectionId: string, error: MessageErrorData): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    console.warn(`[WS] Invalid frame from ${connectionId}: ${error.code} ${error.message}`);
+    // Unauthenticated connections only get one chance to send a valid Authenticate frame
+    if (!client.userId) {
+      this.rejectConnection(connectionId, error.message);
+      return;
+    }
+    this.sendMessageError(connectionId, error);
+  }
+
+  private sendMessageError(connectionId: string, error: MessageErrorData): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    this.sendMessage(client.ws, {
+      type: MessageType.MessageError,
+      payload: error,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  private handleMessage(connectionId: string, message: InboundFrame): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    if (!client.userId) {
+      if (message.type === MessageType.Authenticate) {
+        this.authenticate(connectionId, message.payload.token);
+      } else {
+        this.rejectConnection(connectionId, 'Authentication required');
+      }
+      return;
+    }
+
     switch (message.type) {
+      case MessageType.Authenticate: {
+        // Already authenticated - the identity of a connection can't change
+        this.sendError(client.ws, 'Connection is already authenticated');
+        break;
+      }
+
+      case MessageType.Heartbeat: {
+        // Client-initiated heartbeat - answer right away so the client can measure round trips
+        client.lastSeenAt = Date.now();
+        this.sendHeartbeat(client, message.payload.client_time);
+        break;
+      }
+
       case MessageType.JoinChat: {
-        const joinData = message.payload as JoinRoomMessage;
-        this.joinRoom(address, joinData.chat_id);
-        if (joinData.user_id) {
-          this.roomUsers.set(joinData.chat_id, joinData.user_id);
-          console.log(`[WS] JoinChat chatId=${joinData.chat_id} userId=${joinData.user_id}`);
+        this.authorizeChat(connectionId, message.payload.chat_id).then(allowed => {
+          if (allowed) this.handleJoinChat(connectionId, message.payload);
+        });
+        break;
+      }
+
+      case MessageType.LeaveChat: {
+        const { chat_id } = message.payload;
+        if (!client.rooms.has(chat_id)) {
+          this.sendError(client.ws, 'You are not in this chat');
+          break;
+        }
+        const chatEmptied = this.leaveRoom(connectionId, chat_id, 'left');
+        const left: ChatLeftData = { chat_id };
+        this.sendMessage(client.ws, {
+          type: MessageType.ChatLeft,
+          payload: left,
+          timestamp: Date.now(),
+          message_id: `msg_${Date.now()}`
+        });
+        console.log(`[WS] LeaveChat chatId=${chat_id} userId=${client.userId}`);
+        // Nobody is left to read the answer on any replica. Disconnects don't do this, so a dropped client can still resume.
+        if (chatEmptied) {
+          this.stopChat(chat_id, 'all');
         }
         break;
       }
       
       case MessageType.ChatMessage: {
-        const chatData = message.payload as SendMessageData;
-        this.handleChatMessage(address, chatData);
+        const chatData = message.payload;
+        this.authorizeChat(connectionId, chatData.chat_id).then(allowed => {
+          if (!allowed) return;
+          if (chatData.message.payload.role === Role.User && !this.admitGeneration(client, chatData.chat_id, message.message_id)) {
+            return;
+          }
+          this.handleChatMessage(connectionId, chatData, message.message_id).catch(error => {
+            console.error(`[WS] Failed to handle chat message chatId=${chatData.chat_id}:`, error);
+          });
+        });
+        break;
+      }
+      case MessageType.FunctionExecuteResponse: {
+        if (this.messageHandler.handleFunctionResponse(message.payload, client.rooms)) {
+          break;
+        }
+        if (this.backplane) {
+          // The tool call may be waiting on the replica answering the chat
+          const event: FunctionResponseEvent = { chat_ids: Array.from(client.rooms), response: message.payload };
+          this.backplane.publish(FUNCTION_RESPONSES_CHANNEL, event);
+        } else {
+          console.warn(`[WS] Ignoring FunctionExecuteResponse for unknown requestId=${message.payload.requestId}`);
+        }
         break;
       }
       case MessageType.StopGeneration: {
-        const { chat_id } = message.payload as { chat_id: string };
-        this.messageHandler.handleStop(chat_id);
+        const { chat_id, scope = 'current' } = message.payload;
+        this.authorizeChat(connectionId, chat_id).then(allowed => {
+          if (allowed) this.stopChat(chat_id, scope);
+        });
         break;
       }
       
@@ -122,26 +439,276 @@ export class WebSocketServer {
     }
   }
 
-  private joinRoom(address: string, roomId: string): void {
-    if (!this.clients[address]) return;
+  /**
+   * Stop the chat's generation wherever it is being answered
+   */
+  private stopChat(chatId: string, scope: StopScope): void {
+    this.messageHandler.handleStop(chatId, scope);
+    const stop: ChatStopEvent = { chat_id: chatId, scope };
+    this.backplane?.publish(CHAT_STOPS_CHANNEL, stop);
+  }
+
+  private handleJoinChat(connectionId: string, joinData: JoinRoomMessage): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    this.joinRoom(connectionId, joinData.chat_id);
+    if (joinData.llm) {
+      this.messageHandler.handleModelSelection(joinData.chat_id, joinData.llm);
+    }
+    console.log(`[WS] JoinChat chatId=${joinData.chat_id} userId=${client.userId}`);
+    const joined: ChatJoinedData = {
+      chat_id: joinData.chat_id,
+      latest_seq: this.replay.latestSeq(joinData.chat_id),
+      participants: this.getParticipants(joinData.chat_id),
+    };
+    this.sendMessage(client.ws, {
+      type: MessageType.ChatJoined,
+      payload: joined,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+    if (typeof joinData.last_seq === 'number') {
+      this.replayMissedFrames(client, joinData.chat_id, joinData.last_seq);
+    }
+  }
+
+  /**
+   * Verify a token and bind its subject to the connection
+   */
+  private authenticate(connectionId: string, token: string): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    try {
+      const claims = verifyJwt(token, this.auth.jwtSecret, this.auth);
+      clearTimeout(client.authTimer);
+      client.authTimer = undefined;
+      client.userId = claims.sub;
+      console.log(`[WS] Authenticated connectionId=${connectionId} userId=${claims.sub}`);
+      this.sendMessage(client.ws, {
+        type: MessageType.Authenticated,
+        payload: { user_id: claims.sub },
+        timestamp: Date.now(),
+        message_id: `msg_${Date.now()}`
+      });
+    } catch (error) {
+      const reason = error instanceof JwtError ? error.message : 'Invalid token';
+      this.rejectConnection(connectionId, reason);
+    }
+  }
+
+  private rejectConnection(connectionId: string, reason: string): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    console.warn(`[WS] Rejecting connection ${connectionId} from ${client.metadata.remoteAddress}: ${reason}`);
+    this.sendMessage(client.ws, {
+      type: MessageType.ConnectionError,
+      payload: { error: reason },
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+    client.ws.close(CLOSE_UNAUTHORIZED, reason);
+    this.cleanup(connectionId);
+  }
+
+  /**
+   * Chat membership check: the first user to use a chat owns it (recorded in the chat history
+   * store, so it survives restarts), other users are refused. Never rejects.
+   */
+  private async authorizeChat(connectionId: string, chatId: string): Promise<boolean> {
+    const client = this.clients[connectionId];
+    if (!client?.userId || !chatId) return false;
+    const userId = client.userId;
+
+    let owner = this.roomUsers.get(chatId);
+    if (!owner) {
+      try {
+        owner = await this.claimChat(chatId, userId);
+      } catch (error) {
+        console.error(`[WS] Failed to look up the owner of chatId=${chatId}:`, error);
+        this.sendError(client.ws, 'Could not check access to this chat, try again');
+        return false;
+      }
+    }
+    if (!this.clients[connectionId]) return false;
+
+    if (owner !== userId) {
+      console.warn(`[WS] userId=${userId} denied access to chatId=${chatId}`);
+      this.sendError(client.ws, 'You are not a member of this chat');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Record userId as the chat's owner unless the store already has one. Concurrent frames for
+   * the same chat share one lookup, so they are still handled in arrival order.
+   */
+  private claimChat(chatId: string, userId: string): Promise<string> {
+    let pending = this.pendingClaims.get(chatId);
+    if (!pending) {
+      pending = this.chatHistory.claimOwner(chatId, userId).then(owner => {
+        this.roomUsers.set(chatId, owner);
+        if (owner === userId) {
+          console.log(`[WS] chatId=${chatId} owned by userId=${owner}`);
+          const claim: ChatClaimEvent = { chat_id: chatId, user_id: owner };
+          this.backplane?.publish(CHAT_CLAIMS_CHANNEL, claim);
+        }
+        return owner;
+      });
+      const settled = pending;
+      void settled.then(
+        () => this.pendingClaims.delete(chatId),
+        () => this.pendingClaims.delete(chatId)
+      );
+      this.pendingClaims.set(chatId, settled);
+    }
+    return pending;
+  }
+
+  private sendError(ws: WebSocket, error: string): void {
+    this.sendMessage(ws, {
+      type: MessageType.Error,
+      payload: { error },
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  private joinRoom(connectionId: string, roomId: string): void {
+    const client = this.clients[connectionId];
+    if (!client || client.rooms.has(roomId)) return;
 
-    this.clients[address].rooms.add(roomId);
+    client.rooms.add(roomId);
     
     if (!this.rooms[roomId]) {
       this.rooms[roomId] = new Set();
     }
-    this.rooms[roomId].add(address);
+    this.rooms[roomId].add(connectionId);
+    this.announceMembers(roomId);
+    this.broadcastPresence(roomId, 'joined', client);
   }
 
-  private async handleChatMessage(address: string, data: SendMessageData): Promise<void> {
-    const userMessage = data.message.payload;
-    if (data.user_id && !this.roomUsers.has(data.chat_id)) {
-      this.roomUsers.set(data.chat_id, data.user_id);
-      console.log(`[WS] Associated chatId=${data.chat_id} userId=${data.user_id} via ChatMessage`);
+  /**
+   * Remove a connection from a room and tell the rest of the room, on every replica.
+   * Returns true if the chat now has no participants on any replica.
+   */
+  private leaveRoom(connectionId: string, roomId: string, reason: 'left' | 'disconnected'): boolean {
+    const client = this.clients[connectionId];
+    if (!client) return false;
+
+    client.rooms.delete(roomId);
+    const room = this.rooms[roomId];
+    if (room) {
+      room.delete(connectionId);
+      if (room.size === 0) {
+        delete this.rooms[roomId];
+      }
+    }
+    this.announceMembers(roomId);
+    this.broadcastPresence(roomId, 'left', client, reason);
+    return !this.rooms[roomId] && this.remoteParticipants(roomId).length === 0;
+  }
+
+  private broadcastPresence(
+    roomId: string,
+    event: PresenceData['event'],
+    client: ClientConnection,
+    reason?: PresenceData['reason']
+  ): void {
+    const presence: PresenceData = {
+      chat_id: roomId,
+      event,
+      reason,
+      participant: { connection_id: client.connectionId, user_id: client.userId },
+      participants: this.getParticipants(roomId),
+    };
+    this.broadcastToRoom(roomId, {
+      type: MessageType.Presence,
+      payload: presence,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  private getParticipants(roomId: string): ParticipantInfo[] {
+    return [...this.localParticipants(roomId), ...this.remoteParticipants(roomId)];
+  }
+
+  private localParticipants(roomId: string): ParticipantInfo[] {
+    return Array.from(this.rooms[roomId] ?? []).map(connectionId => ({
+      connection_id: connectionId,
+      user_id: this.clients[connectionId]?.userId,
+    }));
+  }
+
+  /**
+   * Send a resuming client the room frames it missed, oldest first.
+   * Runs synchronously, so live frames can't interleave with the replay.
+   */
+  private replayMissedFrames(client: ClientConnection, chatId: string, lastSeq: number): void {
+    const replay = this.replay.since(chatId, lastSeq);
+
+    if (replay.truncated) {
+      const notice: ReplayTruncatedData = {
+        chat_id: chatId,
+        last_seq: lastSeq,
+        first_available_seq: replay.firstAvailableSeq,
+        latest_seq: replay.latestSeq,
+      };
+      this.sendMessage(client.ws, {
+        type: MessageType.ReplayTruncated,
+        payload: notice,
+        timestamp: Date.now(),
+        message_id: `msg_${Date.now()}`
+      });
+    }
+
+    for (const frame of replay.frames) {
+      this.sendMessage(client.ws, frame);
     }
+    console.log(`[WS] Replayed ${replay.frames.length} frames chatId=${chatId} from seq=${lastSeq}${replay.truncated ? ' (truncated)' : ''}`);
+  }
+
+  /**
+   * Rate limit user messages (they cost model tokens) and refuse them when the chat's queue can't take more
+   */
+  private admitGeneration(client: ClientConnection, chatId: string, messageId?: string): boolean {
+    const busyReason = this.messageHandler.checkCapacity(chatId);
+    if (busyReason) {
+      this.sendMessageError(client.connectionId, {
+        code: MessageErrorCode.ChatBusy,
+        message: busyReason,
+        message_id: messageId,
+      });
+      return false;
+    }
+
+    const limit = this.userLimiter.take(client.userId as string);
+    if (!limit.allowed) {
+      console.warn(`[WS] Rate limited userId=${client.userId} chatId=${chatId} retryAfterMs=${limit.retryAfterMs}`);
+      this.sendMessageError(client.connectionId, {
+        code: MessageErrorCode.RateLimited,
+        message: 'You are sending messages too quickly',
+        message_id: messageId,
+        retry_after_ms: limit.retryAfterMs,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  private async handleChatMessage(connectionId: string, data: SendMessageData, messageId?: string): Promise<void> {
+    const userMessage = data.message.payload;
     
-    // Extract cartData from message payload if it exists
-    const cartData = (userMessage as any).cartData || data.cartData;
+    if (data.llm) {
+      this.messageHandler.handleModelSelection(data.chat_id, data.llm);
+    }
+
+    // Validation already picked the cart from the message payload or the frame
+    const cartData = data.cartData;
     
     // Notify that message was received
     this.broadcastToRoom(data.chat_id, {
@@ -156,32 +723,318 @@ export class WebSocketServer {
       if (Array.isArray(data.selectedDocuments)) {
         console.log(`[WS] Received selectedDocuments count=${data.selectedDocuments.length} chatId=${data.chat_id}`);
       }
-      await this.messageHandler.handleUserMessage(
+      const owner = this.queueOwner(data.chat_id);
+      if (owner) {
+        const event: QueuedMessageEvent = {
+          node_id: owner,
+          origin_node_id: this.backplane!.nodeId,
+          connection_id: connectionId,
+          chat_id: data.chat_id,
+          message: userMessage,
+          selected_documents: data.selectedDocuments,
+          cart_data: cartData,
+          message_id: messageId,
+        };
+        this.backplane!.publish(QUEUED_MESSAGES_CHANNEL, event);
+        console.log(`[Queue] Message forwarded chatId=${data.chat_id} to nodeId=${owner}`);
+        return;
+      }
+
+      const position = this.messageHandler.enqueueUserMessage(
         data.chat_id,
         userMessage,
         this,
         data.selectedDocuments,
-        cartData
+        cartData,
+        messageId
       );
+      if (position > 0) {
+        console.log(`[Queue] Message queued chatId=${data.chat_id} position=${position}`);
+      }
     }
   }
 
+  /**
+   * Send a frame to everyone in the chat, on every replica. With a backplane the seq comes from
+   * the chat's shared counter, so replicas never hand out the same one; this replica's frames
+   * keep their order, frames from different replicas can arrive slightly out of seq order.
+   */
   broadcastToRoom(roomId: string, message: WebSocketMessage): void {
+    if (!this.backplane) {
+      // Number and buffer the frame even if nobody is connected, so a reconnecting client can catch up
+      this.deliverToRoom(roomId, this.replay.append(roomId, message));
+      return;
+    }
+
+    const previous = this.numbering.get(roomId) ?? Promise.resolve();
+    const numbered = previous.then(() => this.numberAndPublish(roomId, message));
+    this.numbering.set(roomId, numbered);
+    void numbered.then(() => {
+      if (this.numbering.get(roomId) === numbered) {
+        this.numbering.delete(roomId);
+      }
+    });
+  }
+
+  private async numberAndPublish(roomId: string, message: WebSocketMessage): Promise<void> {
+    let frame: WebSocketMessage;
+    try {
+      const seq = await this.backplane!.increment(ROOM_SEQ_KEY + roomId, ROOM_SEQ_TTL_MS);
+      frame = { ...message, seq };
+      this.replay.ingest(roomId, frame);
+    } catch (error) {
+      // Without the shared counter other replicas may reuse this seq, but the frame still goes out
+      console.warn(`[WS] Numbering frame locally chatId=${roomId}: ${error instanceof Error ? error.message : error}`);
+      frame = this.replay.append(roomId, message);
+    }
+    this.deliverToRoom(roomId, frame);
+
+    const event: RoomFrameEvent = { room_id: roomId, frame };
+    this.backplane?.publish(ROOM_FRAMES_CHANNEL, event);
+  }
+
+  /**
+   * A frame broadcast on another replica - buffer it too, so clients can resume on either one
+   */
+  private handleRemoteFrame(event: RoomFrameEvent): void {
+    if (typeof event?.room_id !== 'string' || typeof event.frame?.seq !== 'number') {
+      console.warn('[WS] Ignoring malformed room frame from backplane');
+      return;
+    }
+    this.replay.ingest(event.room_id, event.frame);
+    this.deliverToRoom(event.room_id, event.frame);
+  }
+
+  /**
+   * Tell the other replicas whether this one is answering the chat, so they forward its messages here
+   */
+  announceQueue(chatId: string, active: boolean): void {
+    if (active) {
+      this.localQueues.add(chatId);
+    } else {
+      this.localQueues.delete(chatId);
+    }
+    if (this.backplane) {
+      const event: ChatQueueEvent = { chat_id: chatId, node_id: this.backplane.nodeId, active };
+      this.backplane.publish(CHAT_QUEUES_CHANNEL, event);
+    }
+  }
+
+  /**
+   * The other replica answering the chat, or null if it's this one or none. Announcements go
+   * stale after a few missed heartbeats, so a replica that died stops receiving messages.
+   * Two replicas starting a chat at the same moment can both answer it.
+   */
+  private queueOwner(chatId: string): string | null {
+    if (!this.backplane || this.messageHandler.hasQueue(chatId)) return null;
+    const remote = this.remoteQueues.get(chatId);
+    if (!remote) return null;
+    if (Date.now() - remote.seenAt > this.heartbeat.intervalMs * 3) {
+      this.remoteQueues.delete(chatId);
+      return null;
+    }
+    return remote.nodeId;
+  }
+
+  private handleRemoteQueue(event: ChatQueueEvent): void {
+    if (typeof event?.chat_id !== 'string' || typeof event.node_id !== 'string') {
+      console.warn('[WS] Ignoring malformed chat queue event from backplane');
+      return;
+    }
+    if (event.active) {
+      this.remoteQueues.set(event.chat_id, { nodeId: event.node_id, seenAt: Date.now() });
+    } else if (this.remoteQueues.get(event.chat_id)?.nodeId === event.node_id) {
+      this.remoteQueues.delete(event.chat_id);
+    }
+  }
+
+  /**
+   * A user message another replica forwarded because this one is answering the chat
+   */
+  private handleQueuedMessage(event: QueuedMessageEvent): void {
+    if (event?.node_id !== this.backplane?.nodeId) return;
+    if (typeof event.chat_id !== 'string' || typeof event.message?.content !== 'string') {
+      console.warn('[WS] Ignoring malformed queued message from backplane');
+      return;
+    }
+
+    const busyReason = this.messageHandler.checkCapacity(event.chat_id);
+    if (busyReason) {
+      const rejection: QueueRejectionEvent = {
+        node_id: event.origin_node_id,
+        connection_id: event.connection_id,
+        error: { code: MessageErrorCode.ChatBusy, message: busyReason, message_id: event.message_id },
+      };
+      this.backplane!.publish(QUEUE_REJECTIONS_CHANNEL, rejection);
+      return;
+    }
+
+    const position = this.messageHandler.enqueueUserMessage(
+      event.chat_id,
+      event.message,
+      this,
+      event.selected_documents,
+      event.cart_data,
+      event.message_id
+    );
+    console.log(`[Queue] Forwarded message queued chatId=${event.chat_id} from nodeId=${event.origin_node_id} position=${position}`);
+  }
+
+  private handleQueueRejection(event: QueueRejectionEvent): void {
+    if (event?.node_id !== this.backplane?.nodeId || typeof event.connection_id !== 'string') return;
+    this.sendMessageError(event.connection_id, event.error);
+  }
+
+  private handleRemoteFunctionResponse(event: FunctionResponseEvent): void {
+    if (!Array.isArray(event?.chat_ids) || typeof event.response?.requestId !== 'string') {
+      console.warn('[WS] Ignoring malformed function response from backplane');
+      return;
+    }
+    // Every replica gets it; only the one with the waiting tool call settles it
+    this.messageHandler.handleFunctionResponse(event.response, new Set(event.chat_ids));
+  }
+
+  private handleRemoteStop(event: ChatStopEvent): void {
+    if (typeof event?.chat_id !== 'string' || (event.scope !== 'current' && event.scope !== 'all')) {
+      console.warn('[WS] Ignoring malformed stop event from backplane');
+      return;
+    }
+    this.messageHandler.handleStop(event.chat_id, event.scope);
+  }
+
+  /**
+   * Tell the other replicas who is in the chat here, so they can list them and know when it is empty
+   */
+  private announceMembers(roomId: string): void {
+    if (!this.backplane) return;
+    const event: RoomMembersEvent = { chat_id: roomId, node_id: this.backplane.nodeId, participants: this.localParticipants(roomId) };
+    this.backplane.publish(ROOM_MEMBERS_CHANNEL, event);
+  }
+
+  /**
+   * Participants on other replicas. Like queue announcements, a replica's entry goes stale after a
+   * few missed heartbeats so one that died doesn't keep a chat alive.
+   */
+  private remoteParticipants(roomId: string): ParticipantInfo[] {
+    const nodes = this.remoteMembers.get(roomId);
+    if (!nodes) return [];
+
+    const participants: ParticipantInfo[] = [];
+    for (const [nodeId, entry] of nodes) {
+      if (Date.now() - entry.seenAt > this.heartbeat.intervalMs * 3) {
+        nodes.delete(nodeId);
+      } else {
+        participants.push(...entry.participants);
+      }
+    }
+    if (nodes.size === 0) {
+      this.remoteMembers.delete(roomId);
+    }
+    return participants;
+  }
+
+  private handleRemoteMembers(event: RoomMembersEvent): void {
+    if (typeof event?.chat_id !== 'string' || typeof event.node_id !== 'string' || !Array.isArray(event.participants)) {
+      console.warn('[WS] Ignoring malformed room members event from backplane');
+      return;
+    }
+    let nodes = this.remoteMembers.get(event.chat_id);
+    if (event.participants.length > 0) {
+      if (!nodes) {
+        nodes = new Map();
+        this.remoteMembers.set(event.chat_id, nodes);
+      }
+      const known = nodes.has(event.node_id);
+      nodes.set(event.node_id, { participants: event.participants, seenAt: Date.now() });
+      // A replica new to the chat hasn't heard our members yet; don't make it wait for a heartbeat
+      if (!known && this.rooms[event.chat_id]) {
+        this.announceMembers(event.chat_id);
+      }
+    } else if (nodes) {
+      nodes.delete(event.node_id);
+      if (nodes.size === 0) {
+        this.remoteMembers.delete(event.chat_id);
+      }
+    }
+  }
+
+  private handleRemoteClaim(event: ChatClaimEvent): void {
+    if (typeof event?.chat_id !== 'string' || typeof event.user_id !== 'string') {
+      console.warn('[WS] Ignoring malformed chat claim from backplane');
+      return;
+    }
+    if (!this.roomUsers.has(event.chat_id)) {
+      this.roomUsers.set(event.chat_id, event.user_id);
+    }
+  }
+
+  private deliverToRoom(roomId: string, frame: WebSocketMessage): void {
     const participants = this.rooms[roomId];
     if (!participants) {
       return;
     }
 
-    const messageStr = JSON.stringify(message);
+    const messageStr = JSON.stringify(frame);
 
-    participants.forEach(address => {
-      const client = this.clients[address];
+    participants.forEach(connectionId => {
+      const client = this.clients[connectionId];
       if (client && client.ws.readyState === WebSocket.OPEN) {
         client.ws.send(messageStr);
       }
     });
   }
 
+  /**
+   * Ping every socket and terminate the ones that did not answer the previous ping in time.
+   * Authenticated clients also get a Heartbeat frame so the UI can show connection health.
+   */
+  private sendHeartbeats(): void {
+    for (const chatId of this.localQueues) {
+      this.announceQueue(chatId, true);
+    }
+    for (const roomId of Object.keys(this.rooms)) {
+      this.announceMembers(roomId);
+    }
+
+    for (const client of Object.values(this.clients)) {
+      if (client.ws.readyState !== WebSocket.OPEN) continue;
+
+      if (client.pingSentAt === undefined) {
+        client.pingSentAt = Date.now();
+        client.pongTimer = setTimeout(() => this.terminateUnresponsive(client.connectionId), this.heartbeat.timeoutMs);
+        client.ws.ping();
+      }
+
+      if (client.userId) {
+        this.sendHeartbeat(client);
+      }
+    }
+  }
+
+  private sendHeartbeat(client: ClientConnection, clientTime?: number): void {
+    const heartbeat: HeartbeatData = {
+      server_time: Date.now(),
+      interval_ms: this.heartbeat.intervalMs,
+      latency_ms: client.latencyMs,
+      client_time: clientTime,
+    };
+    this.sendMessage(client.ws, {
+      type: MessageType.Heartbeat,
+      payload: heartbeat,
+      timestamp: Date.now(),
+      message_id: `msg_${Date.now()}`
+    });
+  }
+
+  private terminateUnresponsive(connectionId: string): void {
+    const client = this.clients[connectionId];
+    if (!client) return;
+
+    console.warn(`[WS] Terminating unresponsive connection ${connectionId} userId=${client.userId ?? 'unauthenticated'} (no pong within ${this.heartbeat.timeoutMs}ms)`);
+    client.ws.terminate();
+    this.cleanup(connectionId);
+  }
+
   sendMessage(ws: WebSocket, message: WebSocketMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
@@ -192,22 +1045,20 @@ export class WebSocketServer {
     return this.roomUsers.get(chatId);
   }
 
-  private cleanup(address: string): void {
-    const client = this.clients[address];
+  private cleanup(connectionId: string): void {
+    const client = this.clients[connectionId];
     if (!client) return;
 
-    // Remove client from all rooms
-    client.rooms.forEach(roomId => {
-      const room = this.rooms[roomId];
-      if (room) {
-        room.delete(address);
-        if (room.size === 0) {
-          delete this.rooms[roomId];
-        }
-      }
+    clearTimeout(client.authTimer);
+    clearTimeout(client.pongTimer);
+    this.connectionLimiter.delete(connectionId);
+
+    // Remove client from all rooms (generation keeps running so the client can resume)
+    Array.from(client.rooms).forEach(roomId => {
+      this.leaveRoom(connectionId, roomId, 'disconnected');
     });
 
-    delete this.clients[address];
+    delete this.clients[connectionId];
   }
 }
 
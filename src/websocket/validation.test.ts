@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import { parseInboundFrame } from './validation.js';
+import { MessageErrorCode, MessageType } from './protocol.js';
+
+const LIMIT = 64 * 1024;
+
+function parse(frame: unknown, limit: number = LIMIT) {
+  return parseInboundFrame(typeof frame === 'string' ? frame : JSON.stringify(frame), limit);
+}
+
+function expectError(frame: unknown, code: MessageErrorCode, message?: RegExp) {
+  const result = parse(frame);
+  expect(result.ok).toBe(false);
+  if (result.ok) return;
+  expect(result.error.code).toBe(code);
+  if (message) {
+    expect(result.error.message).toMatch(message);
+  }
+}
+
+function chatMessage(payload: Record<string, unknown> = {}, extra: Record<string, unknown> = {}) {
+  return {
+    type: MessageType.ChatMessage,
+    message_id: 'm1',
+    payload: {
+      chat_id: 'chat-1',
+      message: { payload: { role: 'user', content: 'hello', ...payload } },
+      ...extra,
+    },
+  };
+}
+
+describe('parseInboundFrame', () => {
+  describe('rejection codes', () => {
+    it('rejects frames over the size limit', () => {
+      const result = parse({ type: MessageType.Heartbeat, payload: { pad: 'x'.repeat(100) } }, 50);
+      expect(result).toMatchObject({ ok: false, error: { code: MessageErrorCode.PayloadTooLarge } });
+    });
+
+    it('counts bytes, not characters, against the limit', () => {
+      const frame = JSON.stringify({ type: MessageType.Heartbeat, payload: { pad: 'é'.repeat(20) } });
+      expect(parseInboundFrame(frame, frame.length).ok).toBe(false);
+      expect(parseInboundFrame(frame, Buffer.byteLength(frame)).ok).toBe(true);
+    });
+
+    it('rejects invalid JSON', () => {
+      expectError('{not json', MessageErrorCode.InvalidJson);
+    });
+
+    it.each([
+      ['an array', [1, 2]],
+      ['null', null],
+      ['a string', 'hello'],
+      ['a frame without a type', { payload: {} }],
+      ['a frame with a non-string type', { type: 5 }],
+    ])('rejects %s as an invalid frame', (_label, frame) => {
+      expectError(JSON.stringify(frame), MessageErrorCode.InvalidFrame);
+    });
+
+    it('rejects unknown types and echoes message_id', () => {
+      const result = parse({ type: 'drop_tables', message_id: 'abc' });
+      expect(result).toMatchObject({ ok: false, error: { code: MessageErrorCode.UnknownType, message_id: 'abc' } });
+    });
+
+    it('rejects outbound-only types sent by the client', () => {
+      expectError({ type: MessageType.TextStream, payload: {} }, MessageErrorCode.UnknownType);
+    });
+
+    it('reports payload problems as invalid_payload with the field path', () => {
+      expectError({ type: MessageType.JoinChat, payload: {} }, MessageErrorCode.InvalidPayload, /payload\.chat_id/);
+    });
+
+    it('truncates an overlong message_id', () => {
+      const result = parse({ type: 'nope', message_id: 'x'.repeat(1000) });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.message_id).toHaveLength(256);
+    });
+  });
+
+  describe(MessageType.Authenticate, () => {
+    it('accepts a token', () => {
+      expect(parse({ type: MessageType.Authenticate, payload: { token: 'jwt' } })).toEqual({
+        ok: true,
+        frame: { type: MessageType.Authenticate, payload: { token: 'jwt' }, message_id: undefined },
+      });
+    });
+
+    it.each([
+      ['a missing payload', undefined],
+      ['a missing token', {}],
+      ['an empty token', { token: '' }],
+      ['a non-string token', { token: 42 }],
+      ['an overlong token', { token: 'x'.repeat(8193) }],
+    ])('rejects %s', (_label, payload) => {
+      expectError({ type: MessageType.Authenticate, payload }, MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.JoinChat, () => {
+    it('accepts chat_id with optional user_id, llm and last_seq', () => {
+      const result = parse({
+        type: MessageType.JoinChat,
+        payload: { chat_id: 'c1', user_id: 'u1', llm: { provider: 'gemini', model: 'm' }, last_seq: 7, extra: true },
+      });
+      expect(result).toEqual({
+        ok: true,
+        frame: {
+          type: MessageType.JoinChat,
+          payload: { chat_id: 'c1', user_id: 'u1', llm: { provider: 'gemini', model: 'm' }, last_seq: 7 },
+          message_id: undefined,
+        },
+      });
+    });
+
+    it.each([
+      ['a non-string chat_id', { chat_id: 1 }],
+      ['an overlong chat_id', { chat_id: 'c'.repeat(257) }],
+      ['a negative last_seq', { chat_id: 'c1', last_seq: -1 }],
+      ['a fractional last_seq', { chat_id: 'c1', last_seq: 1.5 }],
+      ['a string last_seq', { chat_id: 'c1', last_seq: '3' }],
+      ['a non-object llm', { chat_id: 'c1', llm: 'openai' }],
+    ])('rejects %s', (_label, payload) => {
+      expectError({ type: MessageType.JoinChat, payload }, MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.LeaveChat, () => {
+    it('accepts chat_id only', () => {
+      const result = parse({ type: MessageType.LeaveChat, payload: { chat_id: 'c1', other: 1 } });
+      expect(result).toMatchObject({ ok: true, frame: { payload: { chat_id: 'c1' } } });
+      if (result.ok) expect(result.frame.payload).toEqual({ chat_id: 'c1' });
+    });
+
+    it('rejects a missing chat_id', () => {
+      expectError({ type: MessageType.LeaveChat, payload: {} }, MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.ChatMessage, () => {
+    it('accepts a user message and defaults room_id to chat_id', () => {
+      const result = parse(chatMessage());
+      expect(result).toEqual({
+        ok: true,
+        frame: {
+          type: MessageType.ChatMessage,
+          message_id: 'm1',
+          payload: {
+            chat_id: 'chat-1',
+            user_id: undefined,
+            message: { room_id: 'chat-1', payload: { role: 'user', content: 'hello', name: undefined } },
+            llm: undefined,
+            selectedDocuments: undefined,
+            cartData: undefined,
+          },
+        },
+      });
+    });
+
+    it('keeps only role, content and name from the chat message', () => {
+      const result = parse(chatMessage({ name: 'alice', toolCalls: [{ id: 't' }], functionCall: { name: 'x' }, isAdmin: true }));
+      expect(result.ok).toBe(true);
+      if (result.ok && result.frame.type === MessageType.ChatMessage) {
+        expect(result.frame.payload.message.payload).toEqual({ role: 'user', content: 'hello', name: 'alice' });
+      }
+    });
+
+    it.each(['system', 'user', 'assistant', 'function'])('accepts the %s role', role => {
+      expect(parse(chatMessage({ role })).ok).toBe(true);
+    });
+
+    it.each(['admin', 'tool', '', undefined])('rejects the role %s', role => {
+      expectError(chatMessage({ role }), MessageErrorCode.InvalidPayload, /role must be one of/);
+    });
+
+    it.each([
+      ['non-string content', { content: 5 }],
+      ['overlong content', { content: 'x'.repeat(32001) }],
+      ['a non-string name', { name: 5 }],
+    ])('rejects %s', (_label, payload) => {
+      expectError(chatMessage(payload), MessageErrorCode.InvalidPayload);
+    });
+
+    it('rejects a missing message', () => {
+      expectError({ type: MessageType.ChatMessage, payload: { chat_id: 'c1' } }, MessageErrorCode.InvalidPayload, /payload\.message/);
+    });
+
+    it('accepts selectedDocuments and a cart, including one inside the chat message', () => {
+      const cart = {
+        items: [{ id: 'p1', name: 'Site', type: 'publisher', price: 10, quantity: 1 }],
+        totalItems: 1,
+        totalPrice: 10,
+      };
+      const top = parse(chatMessage({}, { selectedDocuments: ['d1', 'd2'], cartData: cart }));
+      const nested = parse(chatMessage({ cartData: cart }));
+      for (const result of [top, nested]) {
+        expect(result.ok).toBe(true);
+        if (result.ok && result.frame.type === MessageType.ChatMessage) {
+          expect(result.frame.payload.cartData).toEqual(cart);
+        }
+      }
+    });
+
+    it.each([
+      ['non-array selectedDocuments', { selectedDocuments: 'd1' }],
+      ['too many selectedDocuments', { selectedDocuments: Array.from({ length: 51 }, (_, i) => `d${i}`) }],
+      ['a non-string document id', { selectedDocuments: [1] }],
+      ['cart items that are not an array', { cartData: { items: {}, totalItems: 0, totalPrice: 0 } }],
+      ['a cart item with a bad type', {
+        cartData: { items: [{ id: 'p', name: 'n', type: 'service', price: 1, quantity: 1 }], totalItems: 1, totalPrice: 1 },
+      }],
+      ['a cart without totals', { cartData: { items: [] } }],
+    ])('rejects %s', (_label, extra) => {
+      expectError(chatMessage({}, extra), MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.FunctionExecuteResponse, () => {
+    it('accepts requestId with any result and an optional error', () => {
+      const result = parse({
+        type: MessageType.FunctionExecuteResponse,
+        payload: { requestId: 'fn_1', result: { rows: [1, 2] }, error: 'partial' },
+      });
+      expect(result).toMatchObject({
+        ok: true,
+        frame: { payload: { requestId: 'fn_1', result: { rows: [1, 2] }, error: 'partial' } },
+      });
+    });
+
+    it.each([
+      ['a missing requestId', { result: 1 }],
+      ['an overlong error', { requestId: 'fn_1', error: 'e'.repeat(4001) }],
+    ])('rejects %s', (_label, payload) => {
+      expectError({ type: MessageType.FunctionExecuteResponse, payload }, MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.StopGeneration, () => {
+    it.each([
+      [{ chat_id: 'c1' }, { chat_id: 'c1' }],
+      [{ chat_id: 'c1', scope: 'current' }, { chat_id: 'c1', scope: 'current' }],
+      [{ chat_id: 'c1', scope: 'all' }, { chat_id: 'c1', scope: 'all' }],
+    ])('accepts %j', (payload, expected) => {
+      const result = parse({ type: MessageType.StopGeneration, payload });
+      expect(result.ok).toBe(true);
+      if (result.ok) expect(result.frame.payload).toEqual(expected);
+    });
+
+    it('rejects an unknown scope', () => {
+      expectError({ type: MessageType.StopGeneration, payload: { chat_id: 'c1', scope: 'everything' } }, MessageErrorCode.InvalidPayload);
+    });
+  });
+
+  describe(MessageType.Heartbeat, () => {
+    it('accepts no payload or a numeric client_time', () => {
+      expect(parse({ type: MessageType.Heartbeat })).toMatchObject({ ok: true, frame: { payload: {} } });
+      expect(parse({ type: MessageType.Heartbeat, payload: { client_time: 123 } })).toMatchObject({
+        ok: true,
+        frame: { payload: { client_time: 123 } },
+      });
+    });
+
+    it('rejects a non-numeric client_time', () => {
+      expectError({ type: MessageType.Heartbeat, payload: { client_time: 'now' } }, MessageErrorCode.InvalidPayload);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { Role } from '../types/message.js';
+import {
+  AuthenticateMessage,
+  FunctionExecuteResponse,
+  JoinRoomMessage,
+  LeaveRoomMessage,
+  LLMSelectionData,
+  MessageErrorCode,
+  MessageErrorData,
+  MessageType,
+  SendMessageData,
+  StopGenerationMessage,
+} from './protocol.js';
+
+// Limits on individual fields (the frame as a whole is limited by maxPayloadBytes)
+const MAX_ID_LENGTH = 256;
+const MAX_TOKEN_LENGTH = 8192;
+const MAX_MESSAGE_CHARS = 32000;
+const MAX_SELECTED_DOCUMENTS = 50;
+const MAX_CART_ITEMS = 200;
+
+/**
+ * Inbound frames after validation, discriminated by type
+ */
+export type InboundFrame = { message_id?: string } & (
+  | { type: MessageType.Authenticate; payload: AuthenticateMessage }
+  | { type: MessageType.JoinChat; payload: JoinRoomMessage }
+  | { type: MessageType.LeaveChat; payload: LeaveRoomMessage }
+  | { type: MessageType.ChatMessage; payload: SendMessageData }
+  | { type: MessageType.FunctionExecuteResponse; payload: FunctionExecuteResponse }
+  | { type: MessageType.StopGeneration; payload: StopGenerationMessage }
+  | { type: MessageType.Heartbeat; payload: { client_time?: number } }
+);
+
+export type FrameValidationResult =
+  | { ok: true; frame: InboundFrame }
+  | { ok: false; error: MessageErrorData };
+
+class PayloadError extends Error {}
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, path: string): Fields {
+  if (!isObject(value)) {
+    throw new PayloadError(`${path} must be an object`);
+  }
+  return value;
+}
+
+function string(value: unknown, path: string, maxLength: number = MAX_ID_LENGTH): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new PayloadError(`${path} must be a non-empty string`);
+  }
+  if (value.length > maxLength) {
+    throw new PayloadError(`${path} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string, maxLength: number = MAX_ID_LENGTH): string | undefined {
+  return value === undefined || value === null ? undefined : string(value, path, maxLength);
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PayloadError(`${path} must be a number`);
+  }
+  return value;
+}
+
+function llmSelection(value: unknown, path: string): LLMSelectionData | undefined {
+  if (value === undefined || value === null) return undefined;
+  const fields = object(value, path);
+  return {
+    provider: optionalString(fields.provider, `${path}.provider`),
+    model: optionalString(fields.model, `${path}.model`),
+  };
+}
+
+function authenticatePayload(payload: unknown): AuthenticateMessage {
+  const fields = object(payload, 'payload');
+  return { token: string(fields.token, 'payload.token', MAX_TOKEN_LENGTH) };
+}
+
+function joinPayload(payload: unknown): JoinRoomMessage {
+  const fields = object(payload, 'payload');
+  const join: JoinRoomMessage = {
+    chat_id: string(fields.chat_id, 'payload.chat_id'),
+    user_id: optionalString(fields.user_id, 'payload.user_id'),
+    llm: llmSelection(fields.llm, 'payload.llm'),
+  };
+  if (fields.last_seq !== undefined && fields.last_seq !== null) {
+    const lastSeq = number(fields.last_seq, 'payload.last_seq');
+    if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+      throw new PayloadError('payload.last_seq must be a non-negative integer');
+    }
+    join.last_seq = lastSeq;
+  }
+  return join;
+}
+
+function chatIdPayload(payload: unknown): { chat_id: string } {
+  const fields = object(payload, 'payload');
+  return { chat_id: string(fields.chat_id, 'payload.chat_id') };
+}
+
+function cartData(value: unknown, path: string): SendMessageData['cartData'] {
+  if (value === undefined || value === null) return undefined;
+  const fields = object(value, path);
+  if (!Array.isArray(fields.items)) {
+    throw new PayloadError(`${path}.items must be an array`);
+  }
+  if (fields.items.length > MAX_CART_ITEMS) {
+    throw new PayloadError(`${path}.items must have at most ${MAX_CART_ITEMS} entries`);
+  }
+  fields.items.forEach((item, i) => {
+    const itemPath = `${path}.items[${i}]`;
+    const itemFields = object(item, itemPath);
+    string(itemFields.id, `${itemPath}.id`);
+    string(itemFields.name, `${itemPath}.name`, 1000);
+    if (itemFields.type !== 'publisher' && itemFields.type !== 'product') {
+      throw new PayloadError(`${itemPath}.type must be "publisher" or "product"`);
+    }
+    number(itemFields.price, `${itemPath}.price`);
+    number(itemFields.quantity, `${itemPath}.quantity`);
+    if (itemFields.metadata !== undefined) {
+      object(itemFields.metadata, `${itemPath}.metadata`);
+    }
+  });
+  number(fields.totalItems, `${path}.totalItems`);
+  number(fields.totalPrice, `${path}.totalPrice`);
+  return fields as unknown as SendMessageData['cartData'];
+}
+
+function chatMessagePayload(payload: unknown): SendMessageData {
+  const fields = object(payload, 'payload');
+  const roomMessage = object(fields.message, 'payload.message');
+  const chatMessage = object(roomMessage.payload, 'payload.message.payload');
+
+  if (!Object.values(Role).includes(chatMessage.role as Role)) {
+    throw new PayloadError(`payload.message.payload.role must be one of ${Object.values(Role).join(', ')}`);
+  }
+  if (typeof chatMessage.content !== 'string') {
+    throw new PayloadError('payload.message.payload.content must be a string');
+  }
+  if (chatMessage.content.length > MAX_MESSAGE_CHARS) {
+    throw new PayloadError(`payload.message.payload.content must be at most ${MAX_MESSAGE_CHARS} characters`);
+  }
+
+  let selectedDocuments: string[] | undefined;
+  if (fields.selectedDocuments !== undefined && fields.selectedDocuments !== null) {
+    if (!Array.isArray(fields.selectedDocuments)) {
+      throw new PayloadError('payload.selectedDocuments must be an array');
+    }
+    if (fields.selectedDocuments.length > MAX_SELECTED_DOCUMENTS) {
+      throw new PayloadError(`payload.selectedDocuments must have at most ${MAX_SELECTED_DOCUMENTS} entries`);
+    }
+    selectedDocuments = fields.selectedDocuments.map((id, i) => string(id, `payload.selectedDocuments[${i}]`));
+  }
+
+  const chatId = string(fields.chat_id, 'payload.chat_id');
+  return {
+    chat_id: chatId,
+    user_id: optionalString(fields.user_id, 'payload.user_id'),
+    message: {
+      room_id: optionalString(roomMessage.room_id, 'payload.message.room_id') ?? chatId,
+      // Only role/content/name are taken from the client - anything else (e.g. toolCalls)
+      // would otherwise end up in the stored history
+      payload: {
+        role: chatMessage.role as Role,
+        content: chatMessage.content,
+        name: optionalString(chatMessage.name, 'payload.message.payload.name'),
+      },
+    },
+    llm: llmSelection(fields.llm, 'payload.llm'),
+    selectedDocuments,
+    // Older clients send the cart inside the chat message
+    cartData: cartData(chatMessage.cartData ?? fields.cartData, 'payload.cartData'),
+  };
+}
+
+function stopPayload(payload: unknown): StopGenerationMessage {
+  const fields = object(payload, 'payload');
+  const stop: StopGenerationMessage = { chat_id: string(fields.chat_id, 'payload.chat_id') };
+  if (fields.scope !== undefined && fields.scope !== null) {
+    if (fields.scope !== 'current' && fields.scope !== 'all') {
+      throw new PayloadError('payload.scope must be "current" or "all"');
+    }
+    stop.scope = fields.scope;
+  }
+  return stop;
+}
+
+function functionResponsePayload(payload: unknown): FunctionExecuteResponse {
+  const fields = object(payload, 'payload');
+  return {
+    requestId: string(fields.requestId, 'payload.requestId'),
+    result: fields.result,
+    error: optionalString(fields.error, 'payload.error', 4000),
+  };
+}
+
+function heartbeatPayload(payload: unknown): { client_time?: number } {
+  if (payload === undefined || payload === null) return {};
+  const fields = object(payload, 'payload');
+  return fields.client_time === undefined ? {} : { client_time: number(fields.client_time, 'payload.client_time') };
+}
+
+/**
+ * Parse and validate a raw inbound frame.
+ * Returns the typed frame, or the MessageError payload to send back.
+ */
+export function parseInboundFrame(data: Buffer | string, maxPayloadBytes: number): FrameValidationResult {
+  const size = typeof data === 'string' ? Buffer.byteLength(data) : data.length;
+  if (size > maxPayloadBytes) {
+    return {
+      ok: false,
+      error: { code: MessageErrorCode.PayloadTooLarge, message: `Frame is ${size} bytes, the limit is ${maxPayloadBytes}` },
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data.toString());
+  } catch {
+    return { ok: false, error: { code: MessageErrorCode.InvalidJson, message: 'Frame is not valid JSON' } };
+  }
+
+  if (!isObject(raw) || typeof raw.type !== 'string') {
+    return { ok: false, error: { code: MessageErrorCode.InvalidFrame, message: 'Frame must be an object with a string type' } };
+  }
+  const messageId = typeof raw.message_id === 'string' ? raw.message_id.slice(0, MAX_ID_LENGTH) : undefined;
+
+  try {
+    switch (raw.type) {
+      case MessageType.Authenticate:
+        return { ok: true, frame: { type: raw.type, payload: authenticatePayload(raw.payload), message_id: messageId } };
+      case MessageType.JoinChat:
+        return { ok: true, frame: { type: raw.type, payload: joinPayload(raw.payload), message_id: messageId } };
+      case MessageType.LeaveChat:
+        return { ok: true, frame: { type: raw.type, payload: chatIdPayload(raw.payload), message_id: messageId } };
+      case MessageType.ChatMessage:
+        return { ok: true, frame: { type: raw.type, payload: chatMessagePayload(raw.payload), message_id: messageId } };
+      case MessageType.FunctionExecuteResponse:
+        return { ok: true, frame: { type: raw.type, payload: functionResponsePayload(raw.payload), message_id: messageId } };
+      case MessageType.StopGeneration:
+        return { ok: true, frame: { type: raw.type, payload: stopPayload(raw.payload), message_id: messageId } };
+      case MessageType.Heartbeat:
+        return { ok: true, frame: { type: raw.type, payload: heartbeatPayload(raw.payload), message_id: messageId } };
+      default:
+        return {
+          ok: false,
+          error: { code: MessageErrorCode.UnknownType, message: `Unknown message type: ${raw.type.slice(0, 64)}`, message_id: messageId },
+        };
+    }
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return { ok: false, error: { code: MessageErrorCode.InvalidPayload, message: error.message, message_id: messageId } };
+    }
+    throw error;
+  }
+}